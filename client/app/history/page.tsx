@@ -0,0 +1,216 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import TrendChart from "../../src/components/TrendChart";
+import { resolveBoardId } from "../../src/lib/boards";
+import {
+  fetchBoardHistory,
+  recordBoardSnapshots,
+  snapshotWeekLabel,
+  TREND_METRICS,
+  type PlayerSnapshot
+} from "../../src/lib/history";
+
+type PlayerHistory = { playerId: string; name: string; position: string; team: string; weeks: PlayerSnapshot[] };
+
+// Snapshots come back ordered by season and week, so each player's weeks stay chronological.
+const groupByPlayer = (snapshots: PlayerSnapshot[]): PlayerHistory[] => {
+  const byPlayer = new Map<string, PlayerHistory>();
+  snapshots.forEach((snapshot) => {
+    const entry = byPlayer.get(snapshot.playerId) || {
+      playerId: snapshot.playerId,
+      name: snapshot.name,
+      position: snapshot.position,
+      team: snapshot.team,
+      weeks: []
+    };
+    // The latest snapshot carries the player's current team.
+    entry.team = snapshot.team;
+    entry.weeks.push(snapshot);
+    byPlayer.set(snapshot.playerId, entry);
+  });
+  return Array.from(byPlayer.values()).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Compares the latest week against the average of the weeks before it.
+const trendDirection = (values: Array<number | null>) => {
+  const known = values.filter((value): value is number => value !== null);
+  if (known.length < 2) return null;
+  const latest = known[known.length - 1];
+  const earlier = known.slice(0, -1);
+  const baseline = earlier.reduce((sum, value) => sum + value, 0) / earlier.length;
+  if (!baseline) return latest > 0 ? "rising" : null;
+  const change = (latest - baseline) / Math.abs(baseline);
+  if (change >= 0.1) return "rising";
+  if (change <= -0.1) return "fading";
+  return "steady";
+};
+
+const TREND_STYLES: Record<string, string> = {
+  rising: "bg-green-500/20 text-green-200",
+  fading: "bg-red-500/20 text-red-200",
+  steady: "bg-white/10 text-blue-100/80"
+};
+
+export default function HistoryPage() {
+  const [boardId, setBoardId] = useState<string | null>(null);
+  const [snapshots, setSnapshots] = useState<PlayerSnapshot[]>([]);
+  const [status, setStatus] = useState<"loading" | "ready" | "error">("loading");
+  const [selectedId, setSelectedId] = useState<string>("");
+  const [recording, setRecording] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async (id: string) => {
+    setStatus("loading");
+    const data = await fetchBoardHistory(id);
+    setSnapshots(data || []);
+    setStatus(data ? "ready" : "error");
+  }, []);
+
+  useEffect(() => {
+    const id = resolveBoardId();
+    setBoardId(id);
+    loadHistory(id);
+  }, [loadHistory]);
+
+  const players = useMemo(() => groupByPlayer(snapshots), [snapshots]);
+  const selected = players.find((player) => player.playerId === selectedId) || players[0] || null;
+
+  const recordSnapshot = async () => {
+    if (!boardId) return;
+    setRecording(true);
+    setNotice(null);
+    const recorded = await recordBoardSnapshots(boardId);
+    setRecording(false);
+    if (recorded === null) {
+      setNotice("Could not record a snapshot. Make sure the API and database are running.");
+      return;
+    }
+    setNotice(`Recorded ${recorded} player${recorded === 1 ? "" : "s"} for this week.`);
+    loadHistory(boardId);
+  };
+
+  return (
+    <main className="max-w-6xl mx-auto px-4 py-10 space-y-8">
+      <header className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <p className="uppercase tracking-widest text-xs text-blue-200">Fantasy toolkit</p>
+          <h1 className="text-4xl font-bold">Player history</h1>
+          <p className="text-sm text-blue-100/80">
+            Week-by-week scores and usage for everyone on the board, recorded each time a player is saved.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <Link
+            href={boardId && boardId !== "default" ? `/?board=${encodeURIComponent(boardId)}` : "/"}
+            className="rounded-full border border-white/20 px-4 py-2 text-sm text-white/80 hover:bg-white/10"
+          >
+            Back to board
+          </Link>
+          <button
+            type="button"
+            className="rounded-full bg-blue-500 px-4 py-2 text-sm font-semibold text-black disabled:opacity-60"
+            onClick={recordSnapshot}
+            disabled={recording || !boardId}
+          >
+            {recording ? "Recording..." : "Record this week's snapshot"}
+          </button>
+        </div>
+      </header>
+
+      {notice && <p className="rounded-xl bg-white/10 px-4 py-2 text-sm text-blue-100">{notice}</p>}
+      {status === "loading" && <p className="text-sm text-blue-100/70">Loading history...</p>}
+      {status === "error" && (
+        <p className="rounded-xl bg-red-500/20 px-4 py-2 text-sm text-red-200">
+          History is unavailable. Snapshots need the API proxy and a database.
+        </p>
+      )}
+      {status === "ready" && players.length === 0 && (
+        <p className="text-sm text-blue-100/70">
+          No snapshots yet. Save players on the board or record this week&apos;s snapshot to start a history.
+        </p>
+      )}
+
+      {selected && (
+        <section className="glass-panel p-4 space-y-4">
+          <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+            <div>
+              <h2 className="text-2xl font-semibold">{selected.name}</h2>
+              <p className="text-sm text-blue-200">
+                {selected.position} - {selected.team} - {selected.weeks.length} week
+                {selected.weeks.length === 1 ? "" : "s"} logged
+              </p>
+            </div>
+            <select
+              className="rounded-xl border border-white/10 bg-night-800 px-4 py-2 text-sm"
+              value={selected.playerId}
+              onChange={(e) => setSelectedId(e.target.value)}
+            >
+              {players.map((player) => (
+                <option key={player.playerId} value={player.playerId}>
+                  {player.name} ({player.position}, {player.team})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            {TREND_METRICS.map((metric) => {
+              const points = selected.weeks.map((week) => ({
+                label: `${snapshotWeekLabel(week)} ${week.season}`,
+                value: metric.value(week)
+              }));
+              const direction = trendDirection(points.map((point) => point.value));
+              return (
+                <div key={metric.key} className="space-y-2">
+                  <TrendChart title={metric.label} points={points} />
+                  {direction && (
+                    <span className={`inline-block rounded-full px-3 py-1 text-xs ${TREND_STYLES[direction]}`}>
+                      {metric.label} {direction}
+                    </span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="text-left text-xs uppercase tracking-widest text-blue-200">
+                <tr>
+                  <th className="py-2 pr-4">Week</th>
+                  <th className="py-2 pr-4">Opponent</th>
+                  <th className="py-2 pr-4">Implied</th>
+                  <th className="py-2 pr-4">Def rank</th>
+                  {TREND_METRICS.map((metric) => (
+                    <th key={metric.key} className="py-2 pr-4">
+                      {metric.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {selected.weeks.map((week) => (
+                  <tr key={`${week.season}-${week.seasonType}-${week.week}`} className="border-t border-white/10">
+                    <td className="py-2 pr-4">
+                      {snapshotWeekLabel(week)} {week.season}
+                    </td>
+                    <td className="py-2 pr-4">{week.opponent || "N/A"}</td>
+                    <td className="py-2 pr-4">{week.impliedTotal ?? "N/A"}</td>
+                    <td className="py-2 pr-4">{week.defRank ?? "N/A"}</td>
+                    {TREND_METRICS.map((metric) => (
+                      <td key={metric.key} className="py-2 pr-4">
+                        {metric.value(week) ?? "N/A"}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+    </main>
+  );
+}
@@ -1,26 +1,106 @@
 "use client";
 
 import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { saveAs } from "file-saver";
-import { stadiumLocations } from "../src/lib/stadium";
-import { fetchVegasContext, type VegasContext } from "../src/lib/odds";
-
-type Player = {
-  id: string;
-  name: string;
-  position: string;
-  team: string;
-  opponent: string;
-  impliedTotal?: number;
-  overUnder?: number | null;
-  spread?: number | null;
-  weather?: string;
-  defRank?: number;
-  stats: Record<string, number>;
-  score?: number;
-};
-
-type ViewMode = "WEEK" | "ROS";
+import Link from "next/link";
+import { fetchWeather } from "../src/lib/weather";
+import { bookSpreadFor, fetchVegasContext, type BookLine, type VegasContext } from "../src/lib/odds";
+import {
+  applyBoardOps,
+  enqueueBoardOp,
+  fetchBoardPlayers,
+  flushBoardOps,
+  resolveBoardId,
+  seedBoardOps,
+  type BoardOp,
+  type SyncStatus
+} from "../src/lib/boards";
+import type { Player } from "../src/lib/types";
+import {
+  BUILT_IN_PROFILES,
+  DEFAULT_DEF_RANK,
+  DEFAULT_PROFILE,
+  DEFAULT_TEAM_TOTAL,
+  SCORE_BUCKETS,
+  explainScore,
+  findProfile,
+  formatWeather,
+  normalizePosition,
+  normalizeRosterSlots,
+  normalizeWeather,
+  optimizeLineup,
+  projectPoints,
+  recommendAddDrops,
+  recommendFaabBid,
+  type FaabBid,
+  type GameWeather,
+  type PlayerInjury,
+  type ScheduleGame,
+  type ScoreAdjustment,
+  type ScoringProfile,
+  type ViewMode
+} from "../../shared/scoring";
+import {
+  duplicateProfile,
+  exportProfile,
+  loadActiveProfileId,
+  loadCustomProfiles,
+  parseProfileImport,
+  saveActiveProfileId,
+  saveCustomProfiles
+} from "../src/lib/profiles";
+import ScoreBreakdownPanel from "../src/components/ScoreBreakdownPanel";
+import ProfileEditor from "../src/components/ProfileEditor";
+import StreamerPanel from "../src/components/StreamerPanel";
+import StatusPanel from "../src/components/StatusPanel";
+import LineSparkline, { SharpMoveBadges } from "../src/components/LineSparkline";
+import WeekSelector from "../src/components/WeekSelector";
+import ScheduleStrip from "../src/components/ScheduleStrip";
+import LeaguePanel from "../src/components/LeaguePanel";
+import OwnershipBadge from "../src/components/OwnershipBadge";
+import FaabPanel from "../src/components/FaabPanel";
+import RosterPanel from "../src/components/RosterPanel";
+import InjuryBadges from "../src/components/InjuryBadges";
+import PlayerHeadlines from "../src/components/PlayerHeadlines";
+import ImportPanel from "../src/components/ImportPanel";
+import ExportMenu from "../src/components/ExportMenu";
+import type { WeekSelection } from "../src/lib/weeks";
+import { getDefenseTier } from "../src/lib/defense";
+import { fetchSchedule, type SeasonSchedule } from "../src/lib/schedule";
+import {
+  fetchLeague,
+  findLeagueOwner,
+  indexLeagueOwners,
+  loadLeagueId,
+  playerMatchKey,
+  saveLeagueId,
+  type LeagueOwner,
+  type LeagueSnapshot
+} from "../src/lib/league";
+import {
+  DEFAULT_FAAB_SETTINGS,
+  findTrendingAdds,
+  indexTrendingAdds,
+  loadFaabSettings,
+  saveFaabSettings,
+  weeksLeftFrom,
+  type FaabSettings
+} from "../src/lib/faab";
+import { fetchNflCalendar } from "../src/lib/weeks";
+import { loadRoster, saveRoster } from "../src/lib/roster";
+import { formatNewsTimestamp, type NewsItem } from "../src/lib/news";
+import { fetchSleeperMatch, pickPlayerInjury, sameInjury, type SleeperMatch } from "../src/lib/injuries";
+import type { ImportMode, ImportRow } from "../src/lib/boardImport";
+import { formatCacheAge, type CacheAge } from "../src/lib/freshness";
+import { fetchLineHistory, lineSeries, type TeamLineHistory } from "../src/lib/lineHistory";
+import {
+  buildMarkdownSummary,
+  downloadBackup,
+  downloadCsv,
+  downloadText,
+  downloadWorkbook,
+  type ExportFormat,
+  type ExportTable
+} from "../src/lib/exports";
 
 type DefRankStatus = "idle" | "loading" | "ready" | "error";
 
@@ -33,9 +113,8 @@ type DefenseRankEntry = {
 };
 
 const STORAGE_KEY = "fantasy-waiver-tool-players";
+const BOARD_SYNC_INTERVAL_MS = 30 * 1000;
 const API_BASE_URL = process.env.NEXT_PUBLIC_SERVER_URL || "http://localhost:5000";
-const DEFAULT_TEAM_TOTAL = 22;
-const DEFAULT_DEF_RANK = 16;
 const createPlayerId = () =>
   typeof crypto !== "undefined" && "randomUUID" in crypto
     ? crypto.randomUUID()
@@ -83,89 +162,62 @@ const PREDICTIVE_FIELDS: Record<string, string[]> = {
     "3rd/4th Down Targets (Last 3)",
     "PPR (Last 3)",
     "PPR Rank (Last 3)"
+  ],
+  K: [
+    "FG Attempts (Last 3)",
+    "FG Made % (Last 3)",
+    "50+ Yard FG Attempts (Last 3)",
+    "Extra Point Attempts (Last 3)",
+    "Dome Game (1 = dome, 0 = outdoor)",
+    "Team Implied Total",
+    "Fantasy PPG (Last 3)"
+  ],
+  DST: [
+    "Opponent Implied Total",
+    "Sacks (Last 3)",
+    "Turnovers Forced (Last 3)",
+    "Opponent Pressure Rate Allowed",
+    "Fantasy PPG (Last 3)"
   ]
 };
 
-
-
-type ScoreBucket = "opportunity" | "efficiency" | "leverage" | "production";
-
-type StatRule = {
-  keywords: string[];
-  bucket: ScoreBucket;
-  weight: number;
-  normalize?: "percent" | "routes" | "yards";
-  transform?: (value: number) => number;
-};
-
-const STAT_RULES: StatRule[] = [
-  { keywords: ["targets per route run", "tprr"], bucket: "efficiency", weight: 55, normalize: "percent" },
-  { keywords: ["yards per route run"], bucket: "efficiency", weight: 8, normalize: "yards" },
-  { keywords: ["epa per play"], bucket: "efficiency", weight: 2.5 },
-  { keywords: ["completion %"], bucket: "efficiency", weight: 1.2, normalize: "percent" },
-  {
-    keywords: ["pressure rate"],
-    bucket: "efficiency",
-    weight: 2,
-    normalize: "percent",
-    transform: (val) => 1 - val
-  },
-  { keywords: ["yards per attempt"], bucket: "efficiency", weight: 1.8 },
-  { keywords: ["routes"], bucket: "opportunity", weight: 0.12, normalize: "routes" },
-  { keywords: ["snap share"], bucket: "opportunity", weight: 0.45, normalize: "percent" },
-  { keywords: ["targets (last"], bucket: "opportunity", weight: 0.35 },
-  { keywords: ["catchable targets"], bucket: "efficiency", weight: 0.25 },
-  { keywords: ["adot"], bucket: "efficiency", weight: 0.18 },
-  { keywords: ["air yards"], bucket: "efficiency", weight: 0.06, normalize: "yards" },
-  { keywords: ["unrealized air yards"], bucket: "opportunity", weight: 0.04, normalize: "yards" },
-  { keywords: ["ez targets"], bucket: "leverage", weight: 0.9 },
-  { keywords: ["red zone"], bucket: "leverage", weight: 0.7 },
-  { keywords: ["3rd/4th"], bucket: "leverage", weight: 0.6 },
-  { keywords: ["play-action"], bucket: "leverage", weight: 0.5 },
-  { keywords: ["fantasy ppg"], bucket: "production", weight: 2.5 },
-  { keywords: ["ppr (last"], bucket: "production", weight: 2.2 },
-  {
-    keywords: ["ppr rank"],
-    bucket: "production",
-    weight: 18,
-    transform: (val) => Math.max(0, 1 - val / 100)
-  }
-];
-
-const POSITION_MULTIPLIERS: Record<string, number> = {
-  QB: 1.08,
-  RB: 1.04,
-  WR: 1,
-  TE: 0.92
-};
-
-const BUCKET_WEIGHTS: Record<ScoreBucket, number> = {
-  opportunity: 28,
-  efficiency: 30,
-  leverage: 20,
-  production: 26
-};
-
-const BUCKET_NORMALIZERS: Record<ScoreBucket, number> = {
-  opportunity: 120,
-  efficiency: 140,
-  leverage: 80,
-  production: 110
+// Vegas-driven stats the form fills from the live line when they are left blank.
+const VEGAS_STAT_FIELDS: Record<string, { stat: string; source: "team" | "opponent" }> = {
+  K: { stat: "Team Implied Total", source: "team" },
+  DST: { stat: "Opponent Implied Total", source: "opponent" }
 };
 
 const POSITION_DEF_KEYS: Record<string, keyof DefenseRankEntry> = {
   QB: "QB",
   RB: "RB",
   WR: "WR",
-  TE: "TE"
+  TE: "TE",
+  K: "overall",
+  DST: "overall"
 };
 
+const ADJUSTMENT_COLUMNS: ScoreAdjustment["key"][] = [
+  "implied",
+  "overUnder",
+  "spread",
+  "defense",
+  "rain",
+  "temperature",
+  "wind",
+  "ros",
+  "schedule",
+  "injury"
+];
+
 const STAT_HINT_PATTERNS: Array<{ regex: RegExp; hint: string }> = [
+  { regex: /Dome Game/i, hint: "Enter 1 for a dome or closed roof, 0 for an outdoor stadium." },
+  { regex: /Implied Total/i, hint: "Vegas implied points; left blank, it fills from the current line." },
   { regex: /%|Rate|TPRR|Share|Completion/i, hint: "Enter as a percentage (e.g., 28 for 28%)." },
   { regex: /EPA|PPG|PPR|Yards per Attempt|Yards per Route Run|ADOT/i, hint: "Enter as an average/decimal value." },
   { regex: /Rank/i, hint: "Enter the numerical rank (lower = better)." },
   {
-    regex: /Routes|Targets|Touches|Snap|EZ|Red Zone|3rd|Play-Action|Pressure|Catchable|Air Yards|Unrealized/i,
+    regex:
+      /Routes|Targets|Touches|Snap|EZ|Red Zone|3rd|Play-Action|Pressure|Catchable|Air Yards|Unrealized|Attempts|Sacks|Turnovers/i,
     hint: "Enter the raw count from your sample window."
   }
 ];
@@ -175,38 +227,18 @@ const getStatHint = (stat: string) => {
   return match ? match.hint : "Use your latest projection for this stat.";
 };
 
-const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
-
-const normalizeStatValue = (value: number, mode?: StatRule["normalize"]) => {
-  if (!Number.isFinite(value)) return 0;
-  if (mode === "percent") {
-    return value > 1 ? value / 100 : value;
-  }
-  if (mode === "routes") {
-    return value / 10;
-  }
-  if (mode === "yards") {
-    return value / 10;
-  }
-  return value;
-};
-
-const extractRainChance = (weather?: string) => {
-  const match = weather?.match(/(\d+)\s*%/);
-  return match ? Number(match[1]) : null;
-};
-
-const extractTempF = (weather?: string) => {
-  const match = weather?.match(/(-?\d+)\s*F/i);
-  return match ? Number(match[1]) : null;
-};
-
 const formatSpreadValue = (spread?: number | null) => {
   if (typeof spread !== "number") return "N/A";
   if (spread === 0) return "EVEN";
   return `${spread > 0 ? "+" : ""}${spread.toFixed(1)}`;
 };
 
+const formatBookLine = (line: BookLine, homeAway?: "home" | "away") => {
+  const spread = bookSpreadFor(line, homeAway);
+  const total = line.total === null ? null : `O/U ${line.total}`;
+  return [line.book, spread === null ? null : formatSpreadValue(spread), total].filter(Boolean).join(" ");
+};
+
 const formatOverUnder = (value?: number | null) => (typeof value === "number" ? value.toFixed(1) : "N/A");
 
 const formatKickoffTime = (value?: string | null) => {
@@ -220,68 +252,134 @@ const formatKickoffTime = (value?: string | null) => {
   });
 };
 
-const formatNewsTimestamp = (value?: string | null) => {
-  if (!value) return "";
-  const date = new Date(value);
-  return date.toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
-};
+// Fetch a deep trending pool so FAAB bids see add counts beyond the handful shown in the panel.
+const TRENDING_POOL_SIZE = 50;
+const TRENDING_DISPLAY_COUNT = 8;
 
-const getDefenseTier = (rank?: number) => {
-  if (typeof rank !== "number") return { label: "", className: "" };
-  if (rank <= 8) return { label: "Tough", className: "bg-red-500/10 text-red-200" };
-  if (rank <= 16) return { label: "Neutral", className: "bg-yellow-500/10 text-yellow-200" };
-  return { label: "Soft", className: "bg-green-500/10 text-green-200" };
-};
+const leagueQueryParams = (league: LeagueSnapshot | null, freeAgentsOnly: boolean) =>
+  league ? `&leagueId=${encodeURIComponent(league.leagueId)}${freeAgentsOnly ? "&freeAgentsOnly=true" : ""}` : "";
 
 const numberFromInput = (value: string): number | undefined =>
   value === "" ? undefined : Number(value);
 
+// The default board keeps the original key so existing browser caches carry over.
+const storageKeyForBoard = (boardId: string) => (boardId === "default" ? STORAGE_KEY : `${STORAGE_KEY}:${boardId}`);
+
 export default function Home() {
   const [players, setPlayers] = useState<Player[]>([]);
   const [form, setForm] = useState<Partial<Player>>({ stats: {} });
   const [defRanks, setDefRanks] = useState<Record<string, DefenseRankEntry>>({});
   const [viewMode, setViewMode] = useState<ViewMode>("WEEK");
+  const [nflWeek, setNflWeek] = useState<WeekSelection>(null);
+  const [schedule, setSchedule] = useState<SeasonSchedule | null>(null);
+  const [weightPlayoffs, setWeightPlayoffs] = useState(false);
   const [defRankStatus, setDefRankStatus] = useState<DefRankStatus>("idle");
+  // "remote" when the server refreshed ranks from DEFENSE_RANKINGS_SOURCE, "file" for the bundled JSON.
+  const [defRankSource, setDefRankSource] = useState<{ source: string | null; age: CacheAge | null }>({
+    source: null,
+    age: null
+  });
   const [persistHydrated, setPersistHydrated] = useState(false);
   const [formError, setFormError] = useState<string | null>(null);
   const [isAdding, setIsAdding] = useState(false);
   const [autoFillNote, setAutoFillNote] = useState<string | null>(null);
   const [latestVegasContext, setLatestVegasContext] = useState<VegasContext | null>(null);
+  const [lineHistory, setLineHistory] = useState<Record<string, TeamLineHistory>>({});
   const [playerLookupNote, setPlayerLookupNote] = useState<string | null>(null);
   const [playerSuggestions, setPlayerSuggestions] = useState<
-    Array<{ id: string; fullName: string; team: string; position: string; opponent?: string | null }>
-  >([]);
-  const [teamNews, setTeamNews] = useState<
-    Array<{ id: string; headline: string; analysis: string; createdAt: string | null }>
+    Array<{
+      id: string;
+      fullName: string;
+      team: string;
+      position: string;
+      opponent?: string | null;
+      rostered?: LeagueOwner | null;
+    } & Partial<PlayerInjury>>
   >([]);
+  const [teamNews, setTeamNews] = useState<NewsItem[]>([]);
   const [trendingAdds, setTrendingAdds] = useState<
-    Array<{ fullName: string; team: string; position: string; count: number }>
+    Array<
+      { fullName: string; team: string; position: string; count: number; rostered?: LeagueOwner | null } & Partial<
+        PlayerInjury
+      >
+    >
   >([]);
+  const [leagueId, setLeagueId] = useState<string | null>(null);
+  const [league, setLeague] = useState<LeagueSnapshot | null>(null);
+  const [leagueStatus, setLeagueStatus] = useState<"idle" | "loading" | "ready" | "error">("idle");
+  const [leagueError, setLeagueError] = useState<string | null>(null);
+  const [freeAgentsOnly, setFreeAgentsOnly] = useState(false);
+  const [faabSettings, setFaabSettings] = useState<FaabSettings>(DEFAULT_FAAB_SETTINGS);
+  const [faabHydrated, setFaabHydrated] = useState(false);
+  const [roster, setRoster] = useState<Player[]>([]);
+  const [rosterSlots, setRosterSlots] = useState<string[]>([]);
+  const [rosterHydrated, setRosterHydrated] = useState(false);
+  const [formTarget, setFormTarget] = useState<"board" | "roster">("board");
   const suppressLookupRef = useRef(false);
   const [editingId, setEditingId] = useState<string | null>(null);
-
-  // --- hydrate players from localStorage ---
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [customProfiles, setCustomProfiles] = useState<ScoringProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState(DEFAULT_PROFILE.id);
+  const [showProfileEditor, setShowProfileEditor] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [profileImportErrors, setProfileImportErrors] = useState<string[]>([]);
+  const [boardId, setBoardId] = useState<string | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>("local");
+  const [pendingCount, setPendingCount] = useState(0);
+  const pendingOpsRef = useRef<BoardOp[]>([]);
+  const syncInFlightRef = useRef(false);
+  const resyncRequestedRef = useRef(false);
+  const syncBoardRef = useRef<() => Promise<void>>(async () => {});
+  const sleeperRefreshDoneRef = useRef(false);
+
+  // --- hydrate players from the localStorage cache, then let the board sync take over ---
   useEffect(() => {
+    const id = resolveBoardId();
+    const storageKey = storageKeyForBoard(id);
     try {
-      const stored = localStorage.getItem(STORAGE_KEY);
+      const stored = localStorage.getItem(storageKey);
+      let cached: Player[] = [];
       if (stored) {
         const parsed: Player[] = JSON.parse(stored).map((player: Player, idx: number) => ({
           ...player,
-          id: player.id ?? `${player.name}-${idx}-${Date.now()}`
+          id: player.id ?? `${player.name}-${idx}-${Date.now()}`,
+          weather: normalizeWeather(player.weather)
         }));
         setPlayers(parsed);
+        cached = parsed;
+      }
+      const storedOps = localStorage.getItem(`${storageKey}:pending`);
+      let ops: BoardOp[] = storedOps ? JSON.parse(storedOps) : [];
+      // Until this browser has synced the board once, its cached players exist nowhere else.
+      if (!localStorage.getItem(`${storageKey}:synced`) && cached.length) {
+        ops = seedBoardOps(ops, cached);
+        localStorage.setItem(`${storageKey}:pending`, JSON.stringify(ops));
       }
+      pendingOpsRef.current = ops;
+      setPendingCount(ops.length);
     } catch (err) {
       console.warn("Failed to load saved players", err);
     } finally {
+      setBoardId(id);
       setPersistHydrated(true);
     }
   }, []);
 
   useEffect(() => {
-    if (!persistHydrated) return;
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(players));
-  }, [players, persistHydrated]);
+    if (!persistHydrated || !boardId) return;
+    localStorage.setItem(storageKeyForBoard(boardId), JSON.stringify(players));
+  }, [players, persistHydrated, boardId]);
+
+  const setPendingOps = useCallback(
+    (next: BoardOp[]) => {
+      pendingOpsRef.current = next;
+      setPendingCount(next.length);
+      if (boardId) {
+        localStorage.setItem(`${storageKeyForBoard(boardId)}:pending`, JSON.stringify(next));
+      }
+    },
+    [boardId]
+  );
 
   useEffect(() => {
     const name = form.name?.trim() || "";
@@ -298,26 +396,21 @@ export default function Home() {
     const controller = new AbortController();
     const timer = setTimeout(async () => {
       try {
+        const leagueParams = leagueQueryParams(league, freeAgentsOnly);
         const res = await fetch(
-          `${API_BASE_URL}/api/player-search?query=${encodeURIComponent(name)}&limit=6`,
+          `${API_BASE_URL}/api/player-search?query=${encodeURIComponent(name)}&limit=6${leagueParams}`,
           { signal: controller.signal }
         );
         if (!res.ok) return;
         const json = await res.json();
-        const suggestions = (json?.data || []) as Array<{
-          id: string;
-          fullName: string;
-          team: string;
-          position: string;
-          opponent?: string | null;
-        }>;
+        const suggestions = (json?.data || []) as typeof playerSuggestions;
         setPlayerSuggestions(suggestions);
         if (suggestions.length) {
           const top = suggestions[0];
           setPlayerLookupNote(`Detected ${top.fullName} (${top.position} - ${top.team}).`);
           setForm((prev) => {
             const next = { ...prev };
-            if (!prev.position && top.position) next.position = top.position;
+            if (!prev.position && top.position) next.position = normalizePosition(top.position);
             if (!prev.team && top.team) next.team = top.team;
             return next;
           });
@@ -335,7 +428,7 @@ export default function Home() {
       controller.abort();
       clearTimeout(timer);
     };
-  }, [form.name]);
+  }, [form.name, league, freeAgentsOnly]);
 
   useEffect(() => {
     const team = form.team?.trim().toUpperCase();
@@ -366,7 +459,12 @@ export default function Home() {
     let cancelled = false;
     async function loadTrending() {
       try {
-        const res = await fetch(`${API_BASE_URL}/api/sleeper/trending?type=adds&limit=8`);
+        const res = await fetch(
+          `${API_BASE_URL}/api/sleeper/trending?type=adds&limit=${TRENDING_POOL_SIZE}${leagueQueryParams(
+            league,
+            freeAgentsOnly
+          )}`
+        );
         if (!res.ok) return;
         const json = await res.json();
         if (!cancelled) {
@@ -375,7 +473,9 @@ export default function Home() {
               fullName: entry.fullName,
               team: entry.team,
               position: entry.position,
-              count: entry.count
+              count: entry.count,
+              rostered: entry.rostered,
+              ...pickPlayerInjury(entry)
             }))
           );
         }
@@ -387,7 +487,96 @@ export default function Home() {
     return () => {
       cancelled = true;
     };
+  }, [league, freeAgentsOnly]);
+
+  // --- Sleeper league: restore the last imported league id ---
+  const importLeague = useCallback(async (id: string) => {
+    setLeagueStatus("loading");
+    setLeagueError(null);
+    const { league: snapshot, error } = await fetchLeague(id);
+    if (!snapshot) {
+      setLeagueStatus("error");
+      setLeagueError(error);
+      return;
+    }
+    setLeague(snapshot);
+    setLeagueId(id);
+    saveLeagueId(id);
+    setLeagueStatus("ready");
+  }, []);
+
+  useEffect(() => {
+    const storedId = loadLeagueId();
+    if (storedId) void importLeague(storedId);
+  }, [importLeague]);
+
+  const disconnectLeague = () => {
+    saveLeagueId(null);
+    setLeagueId(null);
+    setLeague(null);
+    setLeagueStatus("idle");
+    setLeagueError(null);
+    setFreeAgentsOnly(false);
+  };
+
+  const leagueOwners = useMemo(() => indexLeagueOwners(league), [league]);
+
+  // --- FAAB settings: stored values win, otherwise weeks left comes from the NFL calendar ---
+  useEffect(() => {
+    const stored = loadFaabSettings();
+    if (stored) {
+      setFaabSettings(stored);
+      setFaabHydrated(true);
+      return;
+    }
+    let cancelled = false;
+    fetchNflCalendar().then((calendar) => {
+      if (cancelled) return;
+      setFaabSettings((prev) => ({ ...prev, weeksLeft: weeksLeftFrom(calendar?.current || null) }));
+      setFaabHydrated(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (faabHydrated) saveFaabSettings(faabSettings);
+  }, [faabSettings, faabHydrated]);
+
+  const leagueBudget = league?.waiver.budget ?? null;
+  useEffect(() => {
+    if (leagueBudget === null) return;
+    setFaabSettings((prev) =>
+      prev.totalBudget === leagueBudget
+        ? prev
+        : { ...prev, totalBudget: leagueBudget, remainingBudget: Math.min(prev.remainingBudget, leagueBudget) }
+    );
+  }, [leagueBudget]);
+
+  const trendingAddCounts = useMemo(() => indexTrendingAdds(trendingAdds), [trendingAdds]);
+  // --- load the remaining season schedule for ROS strength of schedule ---
+  useEffect(() => {
+    let cancelled = false;
+    fetchSchedule().then((data) => {
+      if (!cancelled && data) setSchedule(data);
+    });
+    return () => {
+      cancelled = true;
+    };
   }, []);
+
+  // --- Vegas line movement for the selected week (empty when the server has no database) ---
+  useEffect(() => {
+    let cancelled = false;
+    fetchLineHistory(nflWeek).then((data) => {
+      if (!cancelled) setLineHistory(data || {});
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [nflWeek, latestVegasContext]);
+
   // --- load defense ranks via proxy ---
   useEffect(() => {
     const controller = new AbortController();
@@ -412,6 +601,7 @@ export default function Home() {
         });
         if (!Object.keys(ranks).length) throw new Error("No defense ranks returned");
         setDefRanks(ranks);
+        setDefRankSource({ source: json.source ?? null, age: json.cache?.defense ?? null });
         setDefRankStatus("ready");
       } catch (err) {
         if ((err as Error).name === "AbortError") return;
@@ -424,138 +614,194 @@ export default function Home() {
     return () => controller.abort();
   }, []);
 
-  const calcScore = useCallback(
-    (p: Player): number => {
-      const st = p.stats || {};
-      const buckets: Record<ScoreBucket, number> = {
-        opportunity: 0,
-        efficiency: 0,
-        leverage: 0,
-        production: 0
-      };
-
-      Object.entries(st).forEach(([key, rawVal]) => {
-        const val = Number(rawVal);
-        if (!Number.isFinite(val)) return;
-        const lowerKey = key.toLowerCase();
-
-        for (const rule of STAT_RULES) {
-          if (rule.keywords.some((keyword) => lowerKey.includes(keyword))) {
-            const normalized = normalizeStatValue(val, rule.normalize);
-            const derived = rule.transform ? rule.transform(normalized) : normalized;
-            buckets[rule.bucket] += derived * rule.weight;
-            break;
-          }
-        }
-      });
-
-      let score = (Object.keys(buckets) as ScoreBucket[]).reduce((total, bucketKey) => {
-        const raw = buckets[bucketKey];
-        const normalized = clamp(raw / BUCKET_NORMALIZERS[bucketKey], 0, 1);
-        return total + normalized * BUCKET_WEIGHTS[bucketKey];
-      }, 0);
-
-      score *= POSITION_MULTIPLIERS[p.position] ?? 1;
-
-      if (typeof p.impliedTotal === "number") {
-        const delta = clamp((p.impliedTotal - DEFAULT_TEAM_TOTAL) / 14, -1, 1);
-        score += delta * 8;
-      }
+  // --- scoring profiles ---
+  useEffect(() => {
+    setCustomProfiles(loadCustomProfiles());
+    setActiveProfileId(loadActiveProfileId());
+  }, []);
 
-      if (typeof p.overUnder === "number") {
-        const delta = clamp((p.overUnder - 45) / 15, -1, 1);
-        score += delta * 6;
-      }
+  const allProfiles = useMemo(() => [...BUILT_IN_PROFILES, ...customProfiles], [customProfiles]);
+  const activeProfile = useMemo(
+    () => findProfile(allProfiles, activeProfileId) ?? DEFAULT_PROFILE,
+    [allProfiles, activeProfileId]
+  );
 
-      if (typeof p.spread === "number") {
-        const favBonus = clamp(-p.spread / 10, -1, 1);
-        score += favBonus * 5;
-      }
+  const selectProfile = (id: string) => {
+    setActiveProfileId(id);
+    saveActiveProfileId(id);
+  };
 
-      if (typeof p.defRank === "number") {
-        const delta = clamp((DEFAULT_DEF_RANK - p.defRank) / 10, -1, 1);
-        score += delta * 6;
-      }
+  const updateCustomProfiles = (next: ScoringProfile[]) => {
+    setCustomProfiles(next);
+    saveCustomProfiles(next);
+  };
 
-      const rain = extractRainChance(p.weather);
-      if (typeof rain === "number") {
-        const penalty = rain > 70 ? 6 : rain > 40 ? 3 : 0;
-        score -= penalty;
-      }
+  const importProfiles = (text: string) => {
+    const { profiles: imported, errors } = parseProfileImport(text, customProfiles);
+    setProfileImportErrors(errors);
+    if (!imported.length) return;
+    updateCustomProfiles([...customProfiles, ...imported]);
+    selectProfile(imported[0].id);
+  };
 
-      const tempF = extractTempF(p.weather);
-      if (typeof tempF === "number") {
-        if (tempF < 32) score -= 4;
-        else if (tempF > 90) score -= 2;
+  const getDefenseRankForPosition = useCallback(
+    (team: string, position?: string | null) => {
+      const entry = defRanks[team];
+      if (!entry) return DEFAULT_DEF_RANK;
+      const key = position ? POSITION_DEF_KEYS[position.toUpperCase()] : undefined;
+      if (key && typeof entry[key] === "number") {
+        return entry[key];
       }
+      return entry.overall ?? DEFAULT_DEF_RANK;
+    },
+    [defRanks]
+  );
 
-      if (viewMode === "ROS") {
-        score = score * 0.8 + clamp(buckets.production / 80, 0, 1) * 20;
-      }
+  // Remaining games for the player's team, each tagged with the opponent's rank against that position.
+  const rosScheduleFor = useCallback(
+    (p: Pick<Player, "team" | "position">): ScheduleGame[] =>
+      (schedule?.teams[p.team] || []).map((game) => ({
+        ...game,
+        defRank: game.opponent ? getDefenseRankForPosition(game.opponent, p.position) : null
+      })),
+    [schedule, getDefenseRankForPosition]
+  );
 
-      if (!Number.isFinite(score)) return 0;
-      return Number(clamp(score, 0, 100).toFixed(1));
+  const withScore = useCallback(
+    (p: Player): Player => {
+      const breakdown = explainScore(
+        { ...p, rosSchedule: rosScheduleFor(p) },
+        { viewMode, profile: activeProfile, playoffWeight: weightPlayoffs ? 2 : 1 }
+      );
+      return { ...p, score: breakdown.score, breakdown, projection: projectPoints(p, breakdown, activeProfile) };
     },
-    [viewMode]
+    [viewMode, activeProfile, rosScheduleFor, weightPlayoffs]
   );
 
   // --- recalc scores when view changes ---
   useEffect(() => {
-    setPlayers((prev) => prev.map((p) => ({ ...p, score: calcScore(p) })));
-  }, [calcScore]);
-
+    setPlayers((prev) => prev.map(withScore));
+    setRoster((prev) => prev.map(withScore));
+  }, [withScore]);
 
-  const formatWeatherSummary = (tempC: number, rain: number) => {
-    const tempF = Math.round((tempC * 9) / 5 + 32);
-    return `${tempF}F / ${Math.round(rain)}% rain`;
-  };
-
-  async function fetchDirectWeather(team: string) {
-    const loc = stadiumLocations[team];
-    if (!loc) return "N/A";
+  // --- my roster lives in localStorage only; it is never shared through the board ---
+  useEffect(() => {
+    const stored = loadRoster();
+    setRoster(stored.players);
+    setRosterSlots(stored.slots);
+    setRosterHydrated(true);
+  }, []);
 
+  useEffect(() => {
+    if (rosterHydrated) saveRoster({ players: roster, slots: rosterSlots });
+  }, [roster, rosterSlots, rosterHydrated]);
+
+  // --- board sync: push queued edits, then adopt the shared server copy ---
+  const syncBoard = useCallback(async () => {
+    if (!boardId) return;
+    if (syncInFlightRef.current) {
+      resyncRequestedRef.current = true;
+      return;
+    }
+    syncInFlightRef.current = true;
+    setSyncStatus("syncing");
     try {
-      const params = new URLSearchParams({
-        latitude: String(loc.lat),
-        longitude: String(loc.lon),
-        hourly: "temperature_2m,precipitation_probability",
-        forecast_days: "1",
-        timezone: "auto"
-      });
-      const res = await fetch(`https://api.open-meteo.com/v1/forecast?${params.toString()}`);
-      if (!res.ok) throw new Error("OpenMeteo unavailable");
-      const json = await res.json();
-      const temps: number[] = json?.hourly?.temperature_2m ?? [];
-      const precip: number[] = json?.hourly?.precipitation_probability ?? [];
-      const sample = (series: number[]) =>
-        typeof series?.[12] === "number" ? series[12] : typeof series?.[0] === "number" ? series[0] : null;
-      const tempC = sample(temps);
-      const rain = sample(precip);
-      if (tempC === null || rain === null) return "N/A";
-      return formatWeatherSummary(tempC, rain);
-    } catch {
-      return "N/A";
+      const queued = pendingOpsRef.current;
+      const { undelivered, rejected } = queued.length
+        ? await flushBoardOps(boardId, queued)
+        : { undelivered: [], rejected: [] };
+      const processed = new Set(queued.slice(0, queued.length - undelivered.length));
+      setPendingOps(pendingOpsRef.current.filter((op) => !processed.has(op)));
+      if (rejected.length) {
+        setFormError(
+          `The shared board refused ${rejected.length} edit${rejected.length === 1 ? "" : "s"}: ${rejected
+            .map(({ op, error }) => (op.type === "upsert" ? `${op.player.name} (${error})` : error))
+            .join("; ")}`
+        );
+      }
+      if (undelivered.length) {
+        setSyncStatus("offline");
+        return;
+      }
+
+      const serverPlayers = await fetchBoardPlayers(boardId);
+      if (!serverPlayers) {
+        setSyncStatus("offline");
+        return;
+      }
+      setPlayers(
+        applyBoardOps(serverPlayers, pendingOpsRef.current).map((p) => withScore({ ...p, stats: p.stats || {} }))
+      );
+      localStorage.setItem(`${storageKeyForBoard(boardId)}:synced`, "1");
+      setSyncStatus("synced");
+    } finally {
+      syncInFlightRef.current = false;
+      if (resyncRequestedRef.current) {
+        resyncRequestedRef.current = false;
+        void syncBoardRef.current();
+      }
     }
-  }
+  }, [boardId, withScore, setPendingOps]);
+
+  useEffect(() => {
+    syncBoardRef.current = syncBoard;
+  }, [syncBoard]);
 
-  // --- weather fetch ---
-  async function fetchWeather(team: string): Promise<string> {
-    const normalized = team.toUpperCase();
-    if (!stadiumLocations[normalized]) return "N/A";
+  useEffect(() => {
+    if (!persistHydrated || !boardId) return;
+    void syncBoardRef.current();
+    const retry = () => void syncBoardRef.current();
+    const timer = setInterval(retry, BOARD_SYNC_INTERVAL_MS);
+    window.addEventListener("online", retry);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener("online", retry);
+    };
+  }, [persistHydrated, boardId]);
 
-    try {
-      const res = await fetch(`${API_BASE_URL}/api/weather?team=${normalized}`);
-      if (res.ok) {
-        const json = await res.json();
-        if (json?.weather && json.weather !== "N/A") {
-          return json.weather as string;
+  const queueBoardOp = useCallback(
+    (op: BoardOp) => {
+      const stamped: BoardOp = op.type === "upsert" ? { ...op, week: nflWeek } : op;
+      setPendingOps(enqueueBoardOp(pendingOpsRef.current, stamped));
+      void syncBoardRef.current();
+    },
+    [setPendingOps, nflWeek]
+  );
+
+  // --- once the board settles, refresh saved injury designations and Sleeper ids ---
+  useEffect(() => {
+    if (sleeperRefreshDoneRef.current || (syncStatus !== "synced" && syncStatus !== "offline")) return;
+    sleeperRefreshDoneRef.current = true;
+    const boardSnapshot = players;
+    const rosterSnapshot = roster;
+    if (!boardSnapshot.length && !rosterSnapshot.length) return;
+
+    const refresh = async (list: Player[]) => {
+      const looked = await Promise.all(list.map(async (player) => ({ player, match: await fetchSleeperMatch(player) })));
+      const changes = new Map<string, SleeperMatch>();
+      looked.forEach(({ player, match }) => {
+        if (match && (match.sleeperId !== player.sleeperId || !sameInjury(player.injury, match.injury))) {
+          changes.set(player.id, match);
         }
-      }
-      throw new Error("Proxy weather unavailable");
-    } catch {
-      return fetchDirectWeather(normalized);
-    }
-  }
+      });
+      return changes;
+    };
+    const merge = (player: Player, match: SleeperMatch) =>
+      withScore({ ...player, sleeperId: match.sleeperId, injury: match.injury });
+    const apply = (changes: Map<string, SleeperMatch>) => (prev: Player[]) =>
+      prev.map((p) => (changes.has(p.id) ? merge(p, changes.get(p.id)!) : p));
+
+    void (async () => {
+      const [boardChanges, rosterChanges] = await Promise.all([refresh(boardSnapshot), refresh(rosterSnapshot)]);
+      if (rosterChanges.size) setRoster(apply(rosterChanges));
+      if (!boardChanges.size) return;
+      setPlayers(apply(boardChanges));
+      boardSnapshot
+        .filter((player) => boardChanges.has(player.id))
+        .forEach((player) => queueBoardOp({ type: "upsert", player: merge(player, boardChanges.get(player.id)!) }));
+    })();
+  }, [syncStatus, players, roster, withScore, queueBoardOp]);
+
   const addPlayer = async () => {
     if (!form.name?.trim() || !form.position || !form.team?.trim() || !form.opponent?.trim()) {
       setFormError("Name, position, team, and opponent are required.");
@@ -574,17 +820,28 @@ export default function Home() {
     const opponent = form.opponent.trim().toUpperCase();
 
     const isEditing = Boolean(editingId);
+    const toRoster = formTarget === "roster";
 
     try {
-      const [weather, vegasData] = await Promise.all([fetchWeather(team), fetchVegasContext(team)]);
+      const [weather, vegasData, sleeperMatch] = await Promise.all([
+        fetchWeather(team, nflWeek),
+        fetchVegasContext(team, nflWeek),
+        fetchSleeperMatch({ name: form.name.trim(), position: form.position, team })
+      ]);
 
       const impliedFromOdds = vegasData?.impliedTotal ?? null;
       const opponentImplied = vegasData?.opponentImpliedTotal ?? null;
-      const impliedTotal = impliedFromOdds ?? DEFAULT_TEAM_TOTAL;
       const overUnder = typeof vegasData?.overUnder === "number" ? vegasData.overUnder : null;
       const spread = typeof vegasData?.spread === "number" ? vegasData.spread : null;
 
-      if (!form.stats || Object.keys(form.stats).length === 0) {
+      const stats = { ...(form.stats || {}) } as Record<string, number>;
+      const vegasField = VEGAS_STAT_FIELDS[form.position];
+      const vegasValue = vegasField?.source === "opponent" ? opponentImplied : impliedFromOdds;
+      if (vegasField && stats[vegasField.stat] === undefined && typeof vegasValue === "number") {
+        stats[vegasField.stat] = vegasValue;
+      }
+
+      if (Object.keys(stats).length === 0) {
         setFormError("Log at least one predictive stat for the player.");
         setIsAdding(false);
         return;
@@ -597,24 +854,32 @@ export default function Home() {
         return;
       }
       const playerId = isEditing ? editingId! : createPlayerId();
-      const newPlayer: Player = {
+      const newPlayer: Player = withScore({
         id: playerId,
         name: form.name.trim(),
         position: form.position,
         team,
         opponent,
+        homeAway: vegasData?.homeAway ?? null,
         weather,
-        impliedTotal,
+        impliedTotal: impliedFromOdds,
+        hasLine: impliedFromOdds !== null,
         overUnder,
         spread,
         defRank,
-        stats: form.stats as Record<string, number>
-      };
+        stats,
+        injury: sleeperMatch?.injury ?? form.injury ?? null,
+        sleeperId: sleeperMatch?.sleeperId ?? form.sleeperId ?? null
+      });
 
-      newPlayer.score = calcScore(newPlayer);
-      setPlayers((prev) =>
-        isEditing ? prev.map((p) => (p.id === playerId ? newPlayer : p)) : [...prev, newPlayer]
-      );
+      const upsert = (prev: Player[]) =>
+        isEditing ? prev.map((p) => (p.id === playerId ? newPlayer : p)) : [...prev, newPlayer];
+      if (toRoster) {
+        setRoster(upsert);
+      } else {
+        setPlayers(upsert);
+        queueBoardOp({ type: "upsert", player: newPlayer });
+      }
       setForm({ stats: {} });
       setEditingId(null);
 
@@ -642,7 +907,11 @@ export default function Home() {
         contextBits.push(`${team} ${formatSpreadValue(spread)}`);
       }
 
-      if (contextBits.length) {
+      if (vegasData?.hasLine === false) {
+        setAutoFillNote(
+          `No Vegas line is posted for ${team} yet; scoring the team at the ${DEFAULT_TEAM_TOTAL}-point baseline.`
+        );
+      } else if (contextBits.length) {
         const opponentLabel = form.opponent?.trim().toUpperCase() || vegasData?.opponent || "OPP";
         setAutoFillNote(`Vegas context vs ${opponentLabel}: ${contextBits.join(" | ")}`);
       } else if (impliedFromOdds === null) {
@@ -658,29 +927,171 @@ export default function Home() {
     }
   };
 
-  const exportCSV = () => {
-    const rows = [
-      ["Name", "Pos", "Team", "Opp", "Weather", "Implied", "O/U", "Spread", "DEF", "Score"],
-      ...players.map((p) => [
-        p.name,
-        p.position,
-        p.team,
-        p.opponent,
-        p.weather,
-        p.impliedTotal,
-        formatOverUnder(p.overUnder),
-        formatSpreadValue(p.spread),
-        p.defRank,
-        p.score
-      ])
+  // Raw stat values trail the computed columns, one per predictive field, so exports import back onto a board.
+  const buildExportTable = (list: Player[], statFields: string[]): ExportTable => {
+    const statColumns = statFields.filter((stat) => list.some((p) => p.stats[stat] !== undefined));
+    return [
+      [
+        "Name",
+        "Pos",
+        "Team",
+        "Opp",
+        "Weather",
+        "Implied",
+        "O/U",
+        "Spread",
+        "DEF",
+        "Score",
+        "Proj floor",
+        "Proj median",
+        "Proj ceiling",
+        "Injury",
+        "FAAB aggressive",
+        "FAAB median",
+        "FAAB minimum",
+        ...SCORE_BUCKETS.flatMap((bucket) => [`${bucket} raw`, `${bucket} norm`]),
+        ...ADJUSTMENT_COLUMNS.map((key) => `adj ${key}`),
+        "Matched rules",
+        ...statColumns
+      ],
+      ...list.map((p) => {
+        const breakdown = p.breakdown;
+        const bid = faabBids.get(p.id);
+        const adjustmentFor = (key: ScoreAdjustment["key"]) =>
+          breakdown?.adjustments.find((adjustment) => adjustment.key === key)?.delta ?? 0;
+        return [
+          p.name,
+          p.position,
+          p.team,
+          p.opponent,
+          formatWeather(p.weather),
+          p.impliedTotal,
+          p.overUnder,
+          p.spread,
+          p.defRank,
+          p.score,
+          p.projection?.floor,
+          p.projection?.median,
+          p.projection?.ceiling,
+          p.injury?.injuryStatus || "",
+          bid?.aggressive,
+          bid?.median,
+          bid?.minimum,
+          ...SCORE_BUCKETS.flatMap((bucket) => [breakdown?.buckets[bucket].raw, breakdown?.buckets[bucket].normalized]),
+          ...ADJUSTMENT_COLUMNS.map(adjustmentFor),
+          breakdown?.rules.map((rule) => `${rule.stat} ${rule.contribution}`).join(" | "),
+          ...statColumns.map((stat) => p.stats[stat])
+        ];
+      })
     ];
-    const csv = rows.map((r) => r.join(",")).join("\n");
-    const blob = new Blob([csv], { type: "text/csv;charset=utf-8" });
-    saveAs(blob, `waiver_predictions_${viewMode}.csv`);
   };
 
-  const removePlayer = (id: string) => setPlayers((prev) => prev.filter((p) => p.id !== id));
-  const clearPlayers = () => setPlayers([]);
+  const exportBoard = async (format: ExportFormat) => {
+    const baseName = `waiver_predictions_${viewMode}_${activeProfile.id}`;
+    const positions = Object.keys(PREDICTIVE_FIELDS);
+    if (format === "csv") {
+      const allStats = Array.from(new Set(Object.values(PREDICTIVE_FIELDS).flat()));
+      downloadCsv(buildExportTable(sortedPlayers, allStats), `${baseName}.csv`);
+    } else if (format === "json") {
+      downloadBackup({ boardId, profileId: activeProfile.id, viewMode, players: sortedPlayers }, `${baseName}.json`);
+    } else if (format === "xlsx") {
+      const sheets = positions
+        .map((position) => ({
+          name: position,
+          rows: buildExportTable(
+            sortedPlayers.filter((p) => p.position === position),
+            PREDICTIVE_FIELDS[position]
+          )
+        }))
+        .filter((sheet) => sheet.rows.length > 1);
+      await downloadWorkbook(sheets, `${baseName}.xlsx`);
+    } else {
+      const summary = buildMarkdownSummary({
+        title: `Waiver targets - ${activeProfile.name}${viewMode === "ROS" ? ", rest of season" : ""}`,
+        players: sortedPlayers,
+        positions,
+        bids: faabBids
+      });
+      try {
+        await navigator.clipboard.writeText(summary);
+        setAutoFillNote("Markdown summary copied. Paste it into the group chat.");
+      } catch {
+        downloadText(summary, `${baseName}.md`);
+      }
+    }
+  };
+
+  const removePlayer = (id: string) => {
+    setPlayers((prev) => prev.filter((p) => p.id !== id));
+    queueBoardOp({ type: "delete", id });
+  };
+  const clearPlayers = () => {
+    setPlayers([]);
+    queueBoardOp({ type: "clear" });
+  };
+
+  // Imported rows keep any context the file carried and look up the rest once per team.
+  const importPlayers = async (rows: ImportRow[], mode: ImportMode) => {
+    const lookups = new Map<string, Promise<[GameWeather | null, VegasContext | null]>>();
+    const contextFor = (team: string) => {
+      if (!lookups.has(team)) {
+        lookups.set(team, Promise.all([fetchWeather(team, nflWeek), fetchVegasContext(team, nflWeek)]));
+      }
+      return lookups.get(team)!;
+    };
+    const existingByKey = new Map(players.map((p) => [playerMatchKey(p.name, p.position, p.team), p]));
+    // A player listed twice keeps their last row.
+    const uniqueRows = Array.from(
+      new Map(rows.map((row) => [playerMatchKey(row.name, row.position, row.team), row])).values()
+    );
+
+    const imported = await Promise.all(
+      uniqueRows.map(async (row) => {
+        const existing = mode === "merge" ? existingByKey.get(playerMatchKey(row.name, row.position, row.team)) : undefined;
+        const [weather, vegas] =
+          row.impliedTotal === null || row.weather === null ? await contextFor(row.team) : [null, null];
+        const stats = { ...(existing?.stats || {}), ...row.stats };
+        const vegasField = VEGAS_STAT_FIELDS[row.position];
+        const vegasValue = vegasField?.source === "opponent" ? vegas?.opponentImpliedTotal : vegas?.impliedTotal;
+        if (vegasField && stats[vegasField.stat] === undefined && typeof vegasValue === "number") {
+          stats[vegasField.stat] = vegasValue;
+        }
+        const impliedTotal = row.impliedTotal ?? vegas?.impliedTotal ?? null;
+        return withScore({
+          id: existing?.id ?? createPlayerId(),
+          name: row.name,
+          position: row.position,
+          team: row.team,
+          opponent: row.opponent,
+          homeAway: vegas?.homeAway ?? existing?.homeAway ?? null,
+          weather: row.weather ?? weather,
+          impliedTotal,
+          hasLine: impliedTotal !== null,
+          overUnder: row.overUnder ?? vegas?.overUnder ?? null,
+          spread: row.spread ?? vegas?.spread ?? null,
+          defRank: row.defRank ?? getDefenseRankForPosition(row.opponent, row.position),
+          stats,
+          injury: row.injury ?? existing?.injury ?? null,
+          sleeperId: row.sleeperId ?? existing?.sleeperId ?? null
+        });
+      })
+    );
+
+    if (mode === "replace") {
+      setPlayers(imported);
+      queueBoardOp({ type: "clear" });
+    } else {
+      const importedIds = new Set(imported.map((p) => p.id));
+      setPlayers((prev) => [...prev.filter((p) => !importedIds.has(p.id)), ...imported]);
+    }
+    imported.forEach((player) => queueBoardOp({ type: "upsert", player }));
+    setAutoFillNote(
+      `Imported ${imported.length} player${imported.length === 1 ? "" : "s"} (${
+        mode === "replace" ? "replaced the board" : "merged into the board"
+      }).`
+    );
+    setShowImport(false);
+  };
 
   const sortedPlayers = useMemo(
     () => [...players].sort((a, b) => (b.score || 0) - (a.score || 0)),
@@ -704,35 +1115,98 @@ export default function Home() {
     return Object.values(leaders);
   }, [sortedPlayers]);
 
-  const getDefenseRankForPosition = useCallback(
-    (team: string, position?: string | null) => {
-      const entry = defRanks[team];
-      if (!entry) return DEFAULT_DEF_RANK;
-      const key = position ? POSITION_DEF_KEYS[position.toUpperCase()] : undefined;
-      if (key && typeof entry[key] === "number") {
-        return entry[key];
-      }
-      return entry.overall ?? DEFAULT_DEF_RANK;
-    },
-    [defRanks]
-  );
+  const faabBids = useMemo(() => {
+    const bids = new Map<string, FaabBid>();
+    const positionCounts: Record<string, number> = {};
+    sortedPlayers.forEach((player) => {
+      positionCounts[player.position] = (positionCounts[player.position] || 0) + 1;
+      bids.set(
+        player.id,
+        recommendFaabBid({
+          score: player.score ?? 0,
+          positionRank: positionCounts[player.position],
+          trendingAdds: findTrendingAdds(trendingAddCounts, player),
+          ...faabSettings
+        })
+      );
+    });
+    return bids;
+  }, [sortedPlayers, trendingAddCounts, faabSettings]);
+
+  const lineup = useMemo(() => optimizeLineup(roster, rosterSlots), [roster, rosterSlots]);
+
+  // Only players nobody in the imported league rosters can be added.
+  const addDropPairs = useMemo(() => {
+    const onRoster = new Set(roster.map((p) => playerMatchKey(p.name, p.position, p.team)));
+    const targets = sortedPlayers.filter(
+      (p) => !onRoster.has(playerMatchKey(p.name, p.position, p.team)) && !findLeagueOwner(leagueOwners, p)
+    );
+    return recommendAddDrops(roster, targets, { slots: rosterSlots });
+  }, [roster, rosterSlots, sortedPlayers, leagueOwners]);
+
+  const importLeagueRoster = (rosterId: number) => {
+    const team = league?.teams.find((entry) => entry.rosterId === rosterId);
+    if (!team || !league) return;
+    const existing = new Map(roster.map((p) => [playerMatchKey(p.name, p.position, p.team), p]));
+    const imported = team.players
+      .map((entry) => ({ ...entry, position: normalizePosition(entry.position) }))
+      .filter((entry) => PREDICTIVE_FIELDS[entry.position] && entry.team)
+      .map((entry) => {
+        // Keep stats already logged for a player; new imports start blank and score on context alone.
+        const kept = existing.get(playerMatchKey(entry.fullName, entry.position, entry.team));
+        if (kept) return kept;
+        const opponent = entry.opponent || "";
+        return withScore({
+          id: `sleeper-${entry.id}`,
+          name: entry.fullName,
+          position: entry.position,
+          team: entry.team!,
+          opponent,
+          defRank: opponent ? getDefenseRankForPosition(opponent, entry.position) : undefined,
+          stats: {}
+        });
+      });
+    setRoster(imported);
+    setRosterSlots(normalizeRosterSlots(league.rosterPositions));
+  };
+
+  const editRosterPlayer = (player: Player) => {
+    suppressLookupRef.current = true;
+    setForm({
+      name: player.name,
+      position: player.position,
+      team: player.team,
+      opponent: player.opponent,
+      weather: player.weather,
+      injury: player.injury,
+      sleeperId: player.sleeperId,
+      impliedTotal: player.impliedTotal,
+      overUnder: player.overUnder,
+      spread: player.spread,
+      stats: { ...(player.stats || {}) }
+    });
+    setEditingId(player.id);
+    setFormTarget("roster");
+    setAutoFillNote(`Editing ${player.name} on your roster. Log their stats and save.`);
+    setPlayerLookupNote(null);
+    setPlayerSuggestions([]);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
 
   const hasOpponent = Boolean(form.opponent?.trim());
 
   useEffect(() => {
     if (defRankStatus !== "ready") return;
-    setPlayers((prev) =>
-      prev.map((player) => {
-        const nextDefRank = getDefenseRankForPosition(player.opponent, player.position);
-        if (!Number.isFinite(nextDefRank) || nextDefRank === player.defRank) {
-          return player;
-        }
-        const updated = { ...player, defRank: nextDefRank };
-        updated.score = calcScore(updated);
-        return updated;
-      })
-    );
-  }, [defRankStatus, getDefenseRankForPosition, calcScore]);
+    const refreshDefRank = (player: Player) => {
+      const nextDefRank = getDefenseRankForPosition(player.opponent, player.position);
+      if (!Number.isFinite(nextDefRank) || nextDefRank === player.defRank) {
+        return player;
+      }
+      return withScore({ ...player, defRank: nextDefRank });
+    };
+    setPlayers((prev) => prev.map(refreshDefRank));
+    setRoster((prev) => prev.map(refreshDefRank));
+  }, [defRankStatus, getDefenseRankForPosition, withScore]);
 
   useEffect(() => {
     const team = form.team?.trim().toUpperCase();
@@ -743,7 +1217,7 @@ export default function Home() {
     let cancelled = false;
     async function loadContext() {
       try {
-        const context = await fetchVegasContext(team);
+        const context = await fetchVegasContext(team, nflWeek);
         if (!context || cancelled) return;
         setLatestVegasContext(context);
         if (!hasOpponent && context.opponent) {
@@ -760,7 +1234,7 @@ export default function Home() {
     return () => {
       cancelled = true;
     };
-  }, [form.team, hasOpponent]);
+  }, [form.team, hasOpponent, nflWeek]);
 
   const predictiveStats = form.position ? PREDICTIVE_FIELDS[form.position] : [];
 
@@ -787,7 +1261,23 @@ export default function Home() {
             Blend predictive stats, Vegas implied totals, weather, and defensive matchups to rank priority adds.
           </p>
         </div>
-        <div className="flex items-center gap-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <Link
+            href="/slate"
+            className="rounded-full border border-white/20 px-3 py-2 text-xs text-white/80 hover:bg-white/10"
+          >
+            Game center
+          </Link>
+          <Link
+            href={boardId && boardId !== "default" ? `/history?board=${encodeURIComponent(boardId)}` : "/history"}
+            className="rounded-full border border-white/20 px-3 py-2 text-xs text-white/80 hover:bg-white/10"
+          >
+            History
+          </Link>
+          <label className="text-sm text-blue-100/80" htmlFor="nfl-week">
+            NFL week
+          </label>
+          <WeekSelector id="nfl-week" value={nflWeek} onChange={setNflWeek} />
           <label className="text-sm text-blue-100/80" htmlFor="view-mode">
             Projection window
           </label>
@@ -800,14 +1290,78 @@ export default function Home() {
             <option value="WEEK">This Week</option>
             <option value="ROS">Rest of Season</option>
           </select>
+          {viewMode === "ROS" && (
+            <label className="flex items-center gap-2 text-sm text-blue-100/80">
+              <input
+                type="checkbox"
+                checked={weightPlayoffs}
+                onChange={(e) => setWeightPlayoffs(e.target.checked)}
+              />
+              Weight weeks 15-17 x2
+            </label>
+          )}
+          <label className="text-sm text-blue-100/80" htmlFor="scoring-profile">
+            Scoring
+          </label>
+          <select
+            id="scoring-profile"
+            className="rounded-xl border border-white/10 bg-night-800 px-4 py-2 text-sm"
+            value={activeProfile.id}
+            onChange={(e) => selectProfile(e.target.value)}
+          >
+            {allProfiles.map((profile) => (
+              <option key={profile.id} value={profile.id}>
+                {profile.name}
+              </option>
+            ))}
+          </select>
+          <button
+            className="rounded-full border border-white/20 px-3 py-2 text-xs text-white/80 hover:bg-white/10"
+            onClick={() => {
+              setProfileImportErrors([]);
+              setShowProfileEditor((open) => !open);
+            }}
+          >
+            {showProfileEditor ? "Close profiles" : "Edit profiles"}
+          </button>
         </div>
       </header>
 
+      {showProfileEditor && (
+        <ProfileEditor
+          profile={activeProfile}
+          importErrors={profileImportErrors}
+          onChange={(updated) =>
+            updateCustomProfiles(customProfiles.map((profile) => (profile.id === updated.id ? updated : profile)))
+          }
+          onDuplicate={() => {
+            const copy = duplicateProfile(activeProfile, customProfiles);
+            updateCustomProfiles([...customProfiles, copy]);
+            selectProfile(copy.id);
+          }}
+          onDelete={() => {
+            updateCustomProfiles(customProfiles.filter((profile) => profile.id !== activeProfile.id));
+            selectProfile(DEFAULT_PROFILE.id);
+          }}
+          onExport={() => exportProfile(activeProfile)}
+          onImport={importProfiles}
+          onClose={() => setShowProfileEditor(false)}
+        />
+      )}
+
       <section className="grid gap-4 md:grid-cols-3">
         <article className="glass-panel p-4">
           <p className="text-sm text-blue-100/70">Players tracked</p>
           <p className="text-4xl font-semibold">{players.length}</p>
-          <p className="text-xs text-blue-100/60">Saved locally in your browser</p>
+          <p className="text-xs text-blue-100/60">
+            {syncStatus === "synced"
+              ? `Shared board "${boardId}"`
+              : syncStatus === "syncing"
+              ? "Syncing with the server..."
+              : pendingCount
+              ? `Offline - ${pendingCount} edit${pendingCount === 1 ? "" : "s"} waiting to sync`
+              : "Saved locally in your browser"}
+          </p>
         </article>
         <article className="glass-panel p-4">
           <p className="text-sm text-blue-100/70">Average composite score</p>
@@ -816,15 +1370,34 @@ export default function Home() {
         </article>
         <article className="glass-panel p-4">
           <p className="text-sm text-blue-100/70">DEF ranks</p>
-          <p className="text-2xl font-semibold capitalize">{defRankStatus === "ready" ? "Live" : defRankStatus}</p>
+          <p className="text-2xl font-semibold capitalize">
+            {defRankStatus !== "ready" ? defRankStatus : defRankSource.source === "remote" ? "Live" : "Bundled"}
+          </p>
           <p className="text-xs text-blue-100/60">
             {defRankStatus === "error"
               ? "Falling back to league-average defenses"
-              : "Powered by FantasyLife API"}
+              : defRankStatus !== "ready"
+              ? "Loading from the API proxy"
+              : defRankSource.source === "remote"
+              ? `Refreshed from the configured source ${formatCacheAge(defRankSource.age)}`
+              : `Bundled rankings file, last updated ${formatCacheAge(defRankSource.age)}`}
           </p>
         </article>
       </section>
 
+      <StatusPanel players={players} defenseFallback={defRankStatus === "error"} />
+
+      <LeaguePanel
+        league={league}
+        leagueId={leagueId}
+        status={leagueStatus}
+        error={leagueError}
+        freeAgentsOnly={freeAgentsOnly}
+        onImport={importLeague}
+        onDisconnect={disconnectLeague}
+        onFreeAgentsOnlyChange={setFreeAgentsOnly}
+      />
+
       {!!trendingAdds.length && (
         <section className="glass-panel p-4 space-y-3">
           <div className="flex items-center justify-between">
@@ -832,7 +1405,7 @@ export default function Home() {
             <span className="text-xs uppercase tracking-widest text-blue-200">Signal boost</span>
           </div>
           <div className="grid gap-2 md:grid-cols-2">
-            {trendingAdds.map((player) => (
+            {trendingAdds.slice(0, TRENDING_DISPLAY_COUNT).map((player) => (
               <div key={`${player.fullName}-${player.team}`} className="rounded-lg border border-white/10 bg-black/20 p-3">
                 <p className="text-sm font-semibold text-white">
                   {player.fullName} <span className="text-blue-200">({player.position})</span>
@@ -840,12 +1413,39 @@ export default function Home() {
                 <p className="text-xs text-blue-100/80">
                   {player.team} · Adds {player.count.toLocaleString()}
                 </p>
+                <div className="flex flex-wrap gap-1">
+                  <InjuryBadges injury={pickPlayerInjury(player)} />
+                  {player.rostered !== undefined && <OwnershipBadge owner={player.rostered} />}
+                </div>
               </div>
             ))}
           </div>
         </section>
       )}
 
+      <StreamerPanel
+        week={nflWeek}
+        onPick={(entry, position) => {
+          suppressLookupRef.current = true;
+          setEditingId(null);
+          setForm({
+            name: position === "DST" ? `${entry.team} D/ST` : "",
+            position,
+            team: entry.team,
+            opponent: entry.opponent,
+            stats: {}
+          });
+          setPlayerSuggestions([]);
+          setPlayerLookupNote(null);
+          setAutoFillNote(
+            position === "DST"
+              ? `Streaming ${entry.team} D/ST vs ${entry.opponent}. Log its stats and add it to the board.`
+              : `Streaming the ${entry.team} ${position} vs ${entry.opponent}. Enter the player's name and stats.`
+          );
+          window.scrollTo({ top: 0, behavior: "smooth" });
+        }}
+      />
+
       <section className="glass-panel p-6 space-y-4">
         <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
           <div>
@@ -854,7 +1454,20 @@ export default function Home() {
               Enter predictive metrics from your models or trusted sources, then let the tool weigh the context.
             </p>
           </div>
-          <div className="flex gap-3">
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="text-sm text-blue-100/80" htmlFor="form-target">
+              Add to
+            </label>
+            <select
+              id="form-target"
+              className="rounded-xl border border-white/10 bg-night-800 px-4 py-2 text-sm"
+              value={formTarget}
+              disabled={Boolean(editingId)}
+              onChange={(e) => setFormTarget(e.target.value as "board" | "roster")}
+            >
+              <option value="board">Waiver board</option>
+              <option value="roster">My roster</option>
+            </select>
             <button
               className="rounded-full border border-white/20 px-4 py-2 text-sm text-white/80 hover:bg-white/10"
               onClick={clearPlayers}
@@ -863,15 +1476,23 @@ export default function Home() {
               Clear saved list
             </button>
             <button
-              className="rounded-full bg-green-500/90 px-4 py-2 text-sm font-semibold text-black disabled:opacity-40"
-              onClick={exportCSV}
-              disabled={!players.length}
+              className="rounded-full border border-white/20 px-4 py-2 text-sm text-white/80 hover:bg-white/10"
+              onClick={() => setShowImport((open) => !open)}
             >
-              Download CSV
+              {showImport ? "Close import" : "Import players"}
             </button>
+            <ExportMenu disabled={!players.length} onExport={exportBoard} />
           </div>
         </div>
 
+        {showImport && (
+          <ImportPanel
+            fieldsByPosition={PREDICTIVE_FIELDS}
+            boardSize={players.length}
+            onImport={importPlayers}
+            onClose={() => setShowImport(false)}
+          />
+        )}
         {formError && <p className="rounded-xl bg-red-500/20 px-4 py-2 text-sm text-red-200">{formError}</p>}
         {autoFillNote && <p className="rounded-xl bg-blue-500/10 px-4 py-2 text-sm text-blue-100">{autoFillNote}</p>}
         {playerLookupNote && (
@@ -899,6 +1520,47 @@ export default function Home() {
               {latestVegasContext.venue ? ` - ${latestVegasContext.venue}` : ""}
               {latestVegasContext.broadcast ? ` - ${latestVegasContext.broadcast}` : ""}
             </p>
+            {latestVegasContext.hasLine === false ? (
+              <p className="text-xs text-amber-200">No sportsbook has posted a line for this game yet.</p>
+            ) : (
+              !!latestVegasContext.books?.length && (
+                <p className="text-xs text-blue-100/70">
+                  {latestVegasContext.books.length > 1
+                    ? `Consensus of ${latestVegasContext.books.length} books: `
+                    : "From "}
+                  {latestVegasContext.books.map((line) => formatBookLine(line, latestVegasContext.homeAway)).join(" | ")}
+                </p>
+              )
+            )}
+            {latestVegasContext.team && (lineHistory[latestVegasContext.team]?.points.length ?? 0) > 1 && (
+              <div className="space-y-1 pt-1">
+                <p className="flex flex-wrap items-center gap-4 text-xs text-blue-100/70">
+                  <span className="flex items-center gap-2">
+                    Implied
+                    <LineSparkline
+                      label={`${latestVegasContext.team} implied total`}
+                      points={lineSeries(lineHistory[latestVegasContext.team], "impliedTotal")}
+                      sharp={!!lineHistory[latestVegasContext.team].movement?.sharp.length}
+                    />
+                  </span>
+                  <span className="flex items-center gap-2">
+                    O/U
+                    <LineSparkline
+                      label="Game total"
+                      points={lineSeries(lineHistory[latestVegasContext.team], "overUnder")}
+                    />
+                  </span>
+                  <span className="flex items-center gap-2">
+                    Spread
+                    <LineSparkline
+                      label={`${latestVegasContext.team} spread`}
+                      points={lineSeries(lineHistory[latestVegasContext.team], "spread")}
+                    />
+                  </span>
+                </p>
+                <SharpMoveBadges history={lineHistory[latestVegasContext.team]} />
+              </div>
+            )}
           </div>
         )}
         {teamNews.length > 0 && (
@@ -941,7 +1603,9 @@ export default function Home() {
                         ...prev,
                         name: suggestion.fullName,
                         team: suggestion.team,
-                        position: suggestion.position,
+                        position: normalizePosition(suggestion.position),
+                        injury: pickPlayerInjury(suggestion),
+                        sleeperId: suggestion.id,
                         opponent:
                           prev.opponent && prev.opponent.trim().length > 0
                             ? prev.opponent
@@ -952,7 +1616,9 @@ export default function Home() {
                     }}
                   >
                     <span className="font-semibold text-white">{suggestion.fullName}</span>
-                    <span className="text-xs text-blue-200">
+                    <span className="flex items-center gap-2 text-xs text-blue-200">
+                      <InjuryBadges injury={pickPlayerInjury(suggestion)} />
+                      {suggestion.rostered !== undefined && <OwnershipBadge owner={suggestion.rostered} />}
                       {suggestion.position} · {suggestion.team}
                     </span>
                   </button>
@@ -1028,6 +1694,8 @@ export default function Home() {
               ? "Syncing DEF ranks..."
               : editingId
               ? "Save changes"
+              : formTarget === "roster"
+              ? "Add to my roster"
               : "Add player"}
           </button>
           {editingId && (
@@ -1050,19 +1718,25 @@ export default function Home() {
         <header className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
           <div>
             <h2 className="text-2xl font-semibold">Rankings board</h2>
-            <p className="text-sm text-blue-100/80">Players are automatically sorted by the composite score.</p>
+            <p className="text-sm text-blue-100/80">
+              Players are automatically sorted by the composite score. Projections are weekly fantasy points in the
+              profile&apos;s scoring format. Tap &ldquo;Why?&rdquo; for the full breakdown.
+            </p>
           </div>
           {!!positionLeaders.length && (
             <div className="flex flex-wrap gap-2 text-xs text-blue-100/80">
               {positionLeaders.map((leader) => (
                 <span key={leader.id} className="rounded-full border border-white/15 px-3 py-1">
-                  Top {leader.position}: {leader.name} ({leader.score})
+                  Top {leader.position}: {leader.name} ({leader.score}
+                  {leader.projection ? `, ${leader.projection.median} pts` : ""})
                 </span>
               ))}
             </div>
           )}
         </header>
 
+        <FaabPanel settings={faabSettings} leagueBudget={leagueBudget} onChange={setFaabSettings} />
+
         <div className="overflow-x-auto">
           <table className="w-full min-w-[720px] text-sm">
             <thead>
@@ -1077,85 +1751,162 @@ export default function Home() {
                 <th className="px-3 py-2">Spread</th>
                 <th className="px-3 py-2">DEF</th>
                 <th className="px-3 py-2">Score</th>
+                <th className="px-3 py-2">Proj</th>
+                <th className="px-3 py-2">FAAB</th>
                 <th className="px-3 py-2 text-center">Actions</th>
               </tr>
             </thead>
             <tbody>
               {sortedPlayers.length === 0 && (
                 <tr>
-                  <td colSpan={11} className="px-3 py-8 text-center text-blue-100/70">
+                  <td colSpan={13} className="px-3 py-8 text-center text-blue-100/70">
                     No players tracked yet. Add a player above to see ranked recommendations.
                   </td>
                 </tr>
               )}
               {sortedPlayers.map((player, index) => {
                 const tier = getDefenseTier(player.defRank);
+                const isExpanded = expandedId === player.id;
+                const bid = faabBids.get(player.id);
                 return (
-                  <tr
-                    key={player.id}
-                    className={`border-b border-white/5 ${highlightSet.has(player.id) ? "bg-green-500/5" : ""}`}
-                  >
-                    <td className="px-3 py-3 font-semibold text-white">
-                      <div className="text-base">{player.name}</div>
-                      <div className="text-xs text-blue-100/60">#{index + 1} overall</div>
-                    </td>
-                    <td className="px-3 py-3">{player.position}</td>
-                  <td className="px-3 py-3">{player.team}</td>
-                  <td className="px-3 py-3">{player.opponent}</td>
-                  <td className="px-3 py-3 text-blue-100/80">{player.weather || "N/A"}</td>
-                  <td className="px-3 py-3">{player.impliedTotal ?? "-"}</td>
-                  <td className="px-3 py-3">{formatOverUnder(player.overUnder)}</td>
-                  <td className="px-3 py-3">
-                    {player.spread !== null && player.spread !== undefined
-                      ? `${player.team} ${formatSpreadValue(player.spread)}`
-                      : "-"}
-                  </td>
-                  <td className="px-3 py-3">
-                    {player.defRank ?? "-"}
-                    {tier.label && (
-                      <span className={`ml-2 rounded-full px-2 py-0.5 text-xs ${tier.className}`}>{tier.label}</span>
-                    )}
-                  </td>
-                    <td className="px-3 py-3 font-semibold">{player.score ?? "-"}</td>
-                  <td className="px-3 py-3 text-center">
-                    <button
-                      className="mr-2 rounded-full border border-white/20 px-3 py-1 text-xs text-blue-200 hover:bg-white/10"
-                      onClick={() => {
-                        suppressLookupRef.current = true;
-                        setForm({
-                          name: player.name,
-                          position: player.position,
-                          team: player.team,
-                          opponent: player.opponent,
-                          weather: player.weather,
-                          impliedTotal: player.impliedTotal,
-                          overUnder: player.overUnder,
-                          spread: player.spread,
-                          stats: { ...(player.stats || {}) }
-                        });
-                        setEditingId(player.id);
-                        setAutoFillNote(`Editing ${player.name}. Update fields and save.`);
-                        setPlayerLookupNote(null);
-                        setPlayerSuggestions([]);
-                        window.scrollTo({ top: 0, behavior: "smooth" });
-                      }}
+                  <React.Fragment key={player.id}>
+                    <tr
+                      className={`border-b border-white/5 ${highlightSet.has(player.id) ? "bg-green-500/5" : ""}`}
                     >
-                      Edit
-                    </button>
-                    <button
-                      className="rounded-full border border-white/20 px-3 py-1 text-xs text-red-200 hover:bg-red-500/10"
-                      onClick={() => removePlayer(player.id)}
-                    >
-                      Remove
-                      </button>
-                    </td>
-                  </tr>
+                      <td className="px-3 py-3 font-semibold text-white">
+                        <div className="text-base">{player.name}</div>
+                        <div className="text-xs text-blue-100/60">#{index + 1} overall</div>
+                        <InjuryBadges injury={player.injury} />
+                        {player.sleeperId && <PlayerHeadlines sleeperId={player.sleeperId} />}
+                        {league && <OwnershipBadge owner={findLeagueOwner(leagueOwners, player)} />}
+                        <ScheduleStrip games={rosScheduleFor(player)} highlightPlayoffs={weightPlayoffs} />
+                      </td>
+                      <td className="px-3 py-3">{player.position}</td>
+                      <td className="px-3 py-3">{player.team}</td>
+                      <td className="px-3 py-3">{player.opponent}</td>
+                      <td className="px-3 py-3 text-blue-100/80">{formatWeather(player.weather)}</td>
+                      <td className="px-3 py-3">
+                        <div className="flex items-center gap-2">
+                          {player.impliedTotal ?? "-"}
+                          <LineSparkline
+                            label={`${player.team} implied total`}
+                            points={lineSeries(lineHistory[player.team], "impliedTotal")}
+                            sharp={!!lineHistory[player.team]?.movement?.sharp.length}
+                          />
+                        </div>
+                        <SharpMoveBadges history={lineHistory[player.team]} compact />
+                      </td>
+                      <td className="px-3 py-3">{formatOverUnder(player.overUnder)}</td>
+                      <td className="px-3 py-3">
+                        {player.spread !== null && player.spread !== undefined
+                          ? `${player.team} ${formatSpreadValue(player.spread)}`
+                          : "-"}
+                      </td>
+                      <td className="px-3 py-3">
+                        {player.defRank ?? "-"}
+                        {tier.label && (
+                          <span className={`ml-2 rounded-full px-2 py-0.5 text-xs ${tier.className}`}>{tier.label}</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-3 font-semibold">
+                        {player.score ?? "-"}
+                        {player.breakdown && (
+                          <button
+                            type="button"
+                            className="ml-2 text-xs font-normal text-blue-200 underline-offset-2 hover:underline"
+                            onClick={() => setExpandedId(isExpanded ? null : player.id)}
+                          >
+                            {isExpanded ? "Hide" : "Why?"}
+                          </button>
+                        )}
+                      </td>
+                      <td className="px-3 py-3 whitespace-nowrap">
+                        {player.projection ? (
+                          <>
+                            <span className="font-semibold text-white">{player.projection.median}</span>
+                            <span className="block text-xs text-blue-100/60">
+                              {player.projection.floor}-{player.projection.ceiling} pts
+                            </span>
+                          </>
+                        ) : (
+                          "-"
+                        )}
+                      </td>
+                      <td className="px-3 py-3 whitespace-nowrap">
+                        {bid ? (
+                          <>
+                            <span className="font-semibold text-white">${bid.median}</span>
+                            <span className="block text-xs text-blue-100/60">
+                              Agg ${bid.aggressive} · Min ${bid.minimum}
+                            </span>
+                          </>
+                        ) : (
+                          "-"
+                        )}
+                      </td>
+                      <td className="px-3 py-3 text-center">
+                        <button
+                          className="mr-2 rounded-full border border-white/20 px-3 py-1 text-xs text-blue-200 hover:bg-white/10"
+                          onClick={() => {
+                            suppressLookupRef.current = true;
+                            setForm({
+                              name: player.name,
+                              position: player.position,
+                              team: player.team,
+                              opponent: player.opponent,
+                              weather: player.weather,
+                              injury: player.injury,
+                              sleeperId: player.sleeperId,
+                              impliedTotal: player.impliedTotal,
+                              overUnder: player.overUnder,
+                              spread: player.spread,
+                              stats: { ...(player.stats || {}) }
+                            });
+                            setEditingId(player.id);
+                            setFormTarget("board");
+                            setAutoFillNote(`Editing ${player.name}. Update fields and save.`);
+                            setPlayerLookupNote(null);
+                            setPlayerSuggestions([]);
+                            window.scrollTo({ top: 0, behavior: "smooth" });
+                          }}
+                        >
+                          Edit
+                        </button>
+                        <button
+                          className="rounded-full border border-white/20 px-3 py-1 text-xs text-red-200 hover:bg-red-500/10"
+                          onClick={() => removePlayer(player.id)}
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                    {isExpanded && player.breakdown && (
+                      <tr className="border-b border-white/5 bg-black/20">
+                        <td colSpan={13} className="px-3 py-4">
+                          <ScoreBreakdownPanel breakdown={player.breakdown} />
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
                 );
               })}
             </tbody>
           </table>
         </div>
       </section>
+
+      <RosterPanel
+        roster={roster}
+        slots={rosterSlots}
+        lineup={lineup}
+        recommendations={addDropPairs}
+        league={league}
+        onSlotsChange={setRosterSlots}
+        onImportTeam={importLeagueRoster}
+        onEdit={editRosterPlayer}
+        onRemove={(id) => setRoster((prev) => prev.filter((p) => p.id !== id))}
+        onClear={() => setRoster([])}
+      />
     </main>
   );
 }
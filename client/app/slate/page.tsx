@@ -0,0 +1,201 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { formatWeather } from "../../../shared/scoring";
+import WeekSelector from "../../src/components/WeekSelector";
+import { formatCacheAge, type CacheAge, type CacheAges } from "../../src/lib/freshness";
+import type { BookLine } from "../../src/lib/odds";
+import { fetchSlate, type SlateGame, type SlateTeam } from "../../src/lib/slate";
+import type { WeekSelection } from "../../src/lib/weeks";
+
+type SortKey = "kickoff" | "total" | "implied";
+
+const SORT_LABELS: Record<SortKey, string> = {
+  kickoff: "Kickoff",
+  total: "Game total",
+  implied: "Highest implied total"
+};
+
+const formatKickoff = (value: string | null) => {
+  if (!value) return "TBD";
+  return new Date(value).toLocaleString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit"
+  });
+};
+
+const formatSpread = (spread: number | null) => {
+  if (spread === null) return "";
+  return spread === 0 ? "PK" : `${spread > 0 ? "+" : ""}${spread.toFixed(1)}`;
+};
+
+const topImplied = (game: SlateGame) => Math.max(game.home.implied ?? 0, game.away.implied ?? 0);
+
+function TeamLine({ team, label }: { team: SlateTeam; label: string }) {
+  return (
+    <div className="flex items-center justify-between">
+      <span>
+        <span className="text-xs text-blue-100/60">{label}</span>{" "}
+        <span className="font-semibold text-white">{team.abbr}</span>{" "}
+        <span className="text-xs text-blue-200">{formatSpread(team.spread)}</span>
+      </span>
+      <span className="font-semibold">{team.implied ?? "N/A"}</span>
+    </div>
+  );
+}
+
+function BookLines({ game }: { game: SlateGame }) {
+  if (game.bookCount < 2) {
+    return game.books[0] ? <p className="text-xs text-blue-100/60">Line from {game.books[0].book}</p> : null;
+  }
+  const describe = (line: BookLine) => {
+    const spread = line.homeSpread === null ? null : `${game.home.abbr} ${formatSpread(line.homeSpread)}`;
+    const total = line.total === null ? null : `O/U ${line.total}`;
+    return [spread, total].filter(Boolean).join(", ");
+  };
+  return (
+    <details className="text-xs text-blue-100/70">
+      <summary className="cursor-pointer text-blue-100/60">Consensus of {game.bookCount} books</summary>
+      <ul className="mt-1 space-y-0.5">
+        {game.books.map((line) => (
+          <li key={line.book} className="flex justify-between gap-3">
+            <span>
+              {line.book}
+              {line.source === "feed" ? " (imported)" : ""}
+            </span>
+            <span>{describe(line)}</span>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
+
+function Freshness({ label, age }: { label: string; age: CacheAge | null | undefined }) {
+  if (!age) return null;
+  return (
+    <span className={age.stale ? "text-amber-200" : undefined} title={new Date(age.fetchedAt).toLocaleString()}>
+      {label} {formatCacheAge(age)}
+      {age.stale ? " (refreshing)" : ""}
+    </span>
+  );
+}
+
+export default function SlatePage() {
+  const [games, setGames] = useState<SlateGame[]>([]);
+  const [cache, setCache] = useState<CacheAges>({});
+  const [status, setStatus] = useState<"loading" | "ready" | "error">("loading");
+  const [sortKey, setSortKey] = useState<SortKey>("total");
+  const [week, setWeek] = useState<WeekSelection>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setStatus("loading");
+    fetchSlate(week).then((data) => {
+      if (cancelled) return;
+      setGames(data?.games || []);
+      setCache(data?.cache || {});
+      setStatus(data ? "ready" : "error");
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [week]);
+
+  const sortedGames = useMemo(() => {
+    const list = [...games];
+    if (sortKey === "kickoff") {
+      list.sort((a, b) => new Date(a.kickoff || 0).getTime() - new Date(b.kickoff || 0).getTime());
+    } else if (sortKey === "total") {
+      // Games without a line sink to the bottom.
+      list.sort((a, b) => (b.overUnder ?? -1) - (a.overUnder ?? -1));
+    } else {
+      list.sort((a, b) => topImplied(b) - topImplied(a));
+    }
+    return list;
+  }, [games, sortKey]);
+
+  return (
+    <main className="max-w-6xl mx-auto px-4 py-10 space-y-8">
+      <header className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <p className="uppercase tracking-widest text-xs text-blue-200">Fantasy toolkit</p>
+          <h1 className="text-4xl font-bold">Game center</h1>
+          <p className="text-sm text-blue-100/80">
+            Every game on the week&apos;s slate with consensus Vegas totals, implied points, and kickoff-hour weather.
+          </p>
+          {status === "ready" && (
+            <p className="flex gap-3 text-xs text-blue-100/60">
+              <Freshness label="Lines updated" age={cache.scoreboard} />
+              <Freshness label="Forecasts updated" age={cache.weather} />
+            </p>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <Link
+            href="/"
+            className="rounded-full border border-white/20 px-4 py-2 text-sm text-white/80 hover:bg-white/10"
+          >
+            Back to board
+          </Link>
+          <WeekSelector id="slate-week" value={week} onChange={setWeek} />
+          <label className="text-sm text-blue-100/80" htmlFor="slate-sort">
+            Sort by
+          </label>
+          <select
+            id="slate-sort"
+            className="rounded-xl border border-white/10 bg-night-800 px-4 py-2 text-sm"
+            value={sortKey}
+            onChange={(e) => setSortKey(e.target.value as SortKey)}
+          >
+            {(Object.keys(SORT_LABELS) as SortKey[]).map((key) => (
+              <option key={key} value={key}>
+                {SORT_LABELS[key]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </header>
+
+      {status === "loading" && <p className="text-sm text-blue-100/70">Loading the slate...</p>}
+      {status === "error" && (
+        <p className="rounded-xl bg-red-500/20 px-4 py-2 text-sm text-red-200">
+          The slate is unavailable. Make sure the API proxy is running.
+        </p>
+      )}
+      {status === "ready" && games.length === 0 && (
+        <p className="text-sm text-blue-100/70">No games were found for this week.</p>
+      )}
+
+      <section className="grid gap-4 md:grid-cols-2">
+        {sortedGames.map((game) => (
+          <article key={game.id} className="glass-panel p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="text-lg font-semibold">{game.name}</p>
+              {game.hasLine ? (
+                <span className="rounded-full border border-white/15 px-3 py-1 text-xs">O/U {game.overUnder}</span>
+              ) : (
+                <span className="rounded-full border border-amber-300/40 px-3 py-1 text-xs text-amber-200">No line</span>
+              )}
+            </div>
+            <div className="space-y-1 text-sm">
+              <TeamLine team={game.away} label="Away" />
+              <TeamLine team={game.home} label="Home" />
+            </div>
+            <BookLines game={game} />
+            <p className="text-xs text-blue-200">
+              {formatKickoff(game.kickoff)}
+              {game.venue ? ` - ${game.venue}` : ""}
+              {game.broadcast ? ` - ${game.broadcast}` : ""}
+            </p>
+            <p className="text-xs text-blue-100/70">Weather: {game.neutralSite ? "Neutral site" : formatWeather(game.weather)}</p>
+          </article>
+        ))}
+      </section>
+    </main>
+  );
+}
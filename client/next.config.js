@@ -0,0 +1,7 @@
+/** @type {import('next').NextConfig} */
+module.exports = {
+  experimental: {
+    // Lets the app compile the scoring engine in ../shared alongside the server.
+    externalDir: true
+  }
+};
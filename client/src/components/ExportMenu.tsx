@@ -0,0 +1,43 @@
+import React, { useState } from "react";
+import { EXPORT_FORMAT_LABELS, type ExportFormat } from "../lib/exports";
+
+type ExportMenuProps = {
+  disabled: boolean;
+  onExport: (format: ExportFormat) => void;
+};
+
+export default function ExportMenu({ disabled, onExport }: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        className="rounded-full bg-green-500/90 px-4 py-2 text-sm font-semibold text-black disabled:opacity-40"
+        onClick={() => setOpen((value) => !value)}
+        disabled={disabled}
+        aria-expanded={open}
+      >
+        Export
+      </button>
+      {open && !disabled && (
+        <ul className="absolute right-0 z-20 mt-2 w-72 overflow-hidden rounded-xl border border-white/10 bg-night-800 text-sm shadow-lg">
+          {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map((format) => (
+            <li key={format}>
+              <button
+                type="button"
+                className="w-full px-4 py-2 text-left text-white/90 hover:bg-white/10"
+                onClick={() => {
+                  setOpen(false);
+                  onExport(format);
+                }}
+              >
+                {EXPORT_FORMAT_LABELS[format]}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
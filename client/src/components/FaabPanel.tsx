@@ -0,0 +1,43 @@
+import React from "react";
+import type { FaabSettings } from "../lib/faab";
+
+type FaabPanelProps = {
+  settings: FaabSettings;
+  leagueBudget: number | null;
+  onChange: (settings: FaabSettings) => void;
+};
+
+const FIELDS: Array<{ key: keyof FaabSettings; label: string }> = [
+  { key: "remainingBudget", label: "Remaining budget" },
+  { key: "totalBudget", label: "League budget" },
+  { key: "weeksLeft", label: "Weeks left" }
+];
+
+export default function FaabPanel({ settings, leagueBudget, onChange }: FaabPanelProps) {
+  return (
+    <div className="flex flex-wrap items-end gap-3 rounded-xl border border-white/10 bg-black/15 px-4 py-3">
+      <div className="mr-auto">
+        <p className="text-xs uppercase tracking-widest text-blue-300">FAAB bids</p>
+        <p className="text-xs text-blue-100/70">
+          Aggressive / median / minimum bids from score, position rank, Sleeper adds, and budget pace.
+          {leagueBudget !== null ? ` League budget $${leagueBudget} from Sleeper.` : ""}
+        </p>
+      </div>
+      {FIELDS.map((field) => (
+        <label key={field.key} className="flex flex-col text-xs text-blue-100/80">
+          {field.label}
+          <input
+            type="number"
+            min={field.key === "weeksLeft" ? 1 : 0}
+            className="mt-1 w-28 rounded-xl border border-white/10 bg-black/20 px-3 py-2 text-sm text-white"
+            value={settings[field.key]}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              if (Number.isFinite(value)) onChange({ ...settings, [field.key]: Math.max(value, 0) });
+            }}
+          />
+        </label>
+      ))}
+    </div>
+  );
+}
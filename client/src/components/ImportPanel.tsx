@@ -0,0 +1,179 @@
+import React, { useState } from "react";
+import { previewImport, resolveImportRows, type ImportMode, type ImportPreview, type ImportRow } from "../lib/boardImport";
+
+type ImportPanelProps = {
+  fieldsByPosition: Record<string, string[]>;
+  boardSize: number;
+  onImport: (rows: ImportRow[], mode: ImportMode) => Promise<void>;
+  onClose: () => void;
+};
+
+export default function ImportPanel({ fieldsByPosition, boardSize, onImport, onClose }: ImportPanelProps) {
+  const [text, setText] = useState("");
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [status, setStatus] = useState<"idle" | "checking" | "importing">("idle");
+  const [mode, setMode] = useState<ImportMode>("merge");
+
+  const validRows = preview?.rows.filter((row) => !row.errors.length) || [];
+  const invalidCount = (preview?.rows.length || 0) - validRows.length;
+
+  const checkImport = async (source: string) => {
+    setStatus("checking");
+    const parsed = previewImport(source, fieldsByPosition);
+    const rows = parsed.error ? parsed.rows : await resolveImportRows(parsed.rows);
+    setPreview({ ...parsed, rows });
+    setStatus("idle");
+  };
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    const content = await file.text();
+    setText(content);
+    checkImport(content);
+  };
+
+  const commit = async () => {
+    setStatus("importing");
+    await onImport(validRows, mode);
+    setStatus("idle");
+    setPreview(null);
+    setText("");
+  };
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-black/20 p-4 space-y-3">
+      <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+        <div>
+          <p className="text-sm font-semibold text-white">Import players</p>
+          <p className="text-xs text-blue-100/70">
+            Paste or upload CSV or JSON with name, position, team, opponent, and predictive stat columns. Headers
+            match the form&apos;s field names (&ldquo;Routes&rdquo; or &ldquo;TPRR&rdquo; work too), and the board&apos;s
+            own CSV export reads back as-is.
+          </p>
+        </div>
+        <button
+          type="button"
+          className="rounded-full border border-white/20 px-3 py-1 text-xs text-white/80 hover:bg-white/10"
+          onClick={onClose}
+        >
+          Close
+        </button>
+      </div>
+
+      <textarea
+        className="h-32 w-full rounded-xl border border-white/10 bg-black/20 px-3 py-2 font-mono text-xs"
+        placeholder={"Name,Pos,Team,Opp,Routes (Last 3),TPRR (Targets per Route Run)\nJayden Reed,WR,GB,CHI,96,24"}
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setPreview(null);
+        }}
+      />
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="cursor-pointer rounded-full border border-white/20 px-4 py-2 text-sm text-white/80 hover:bg-white/10">
+          Choose file
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            onChange={(e) => {
+              loadFile(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+        </label>
+        <button
+          type="button"
+          className="rounded-full bg-blue-500 px-4 py-2 text-sm font-semibold text-black disabled:opacity-60"
+          disabled={!text.trim() || status !== "idle"}
+          onClick={() => checkImport(text)}
+        >
+          {status === "checking" ? "Checking players..." : "Preview"}
+        </button>
+      </div>
+
+      {preview?.error && <p className="rounded-xl bg-red-500/20 px-4 py-2 text-sm text-red-200">{preview.error}</p>}
+
+      {preview && !preview.error && (
+        <div className="space-y-3">
+          <div className="text-xs text-blue-100/70 space-y-1">
+            <p>
+              Mapped:{" "}
+              {Object.entries(preview.mappedColumns)
+                .map(([column, field]) => (column === field ? column : `${column} -> ${field}`))
+                .join(", ") || "nothing"}
+            </p>
+            {!!preview.ignoredColumns.length && <p>Ignored: {preview.ignoredColumns.join(", ")}</p>}
+          </div>
+
+          <div className="max-h-72 overflow-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left uppercase tracking-widest text-blue-100/60">
+                  <th className="px-2 py-1">Row</th>
+                  <th className="px-2 py-1">Player</th>
+                  <th className="px-2 py-1">Matchup</th>
+                  <th className="px-2 py-1">Stats</th>
+                  <th className="px-2 py-1">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.rows.map((row) => (
+                  <tr key={row.line} className="border-t border-white/5 align-top">
+                    <td className="px-2 py-1 text-blue-100/60">{row.line}</td>
+                    <td className="px-2 py-1 text-white">
+                      {row.name || "-"} <span className="text-blue-100/60">{row.position}</span>
+                    </td>
+                    <td className="px-2 py-1">
+                      {row.team || "?"} vs {row.opponent || "?"}
+                    </td>
+                    <td className="px-2 py-1">{Object.keys(row.stats).length}</td>
+                    <td className="px-2 py-1">
+                      {row.errors.map((message) => (
+                        <p key={message} className="text-red-300">
+                          {message}
+                        </p>
+                      ))}
+                      {row.warnings.map((message) => (
+                        <p key={message} className="text-amber-200">
+                          {message}
+                        </p>
+                      ))}
+                      {!row.errors.length && !row.warnings.length && <p className="text-green-300">Ready</p>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <label className="flex items-center gap-2 text-blue-100/80">
+              <input type="radio" checked={mode === "merge"} onChange={() => setMode("merge")} />
+              Merge (update matching players, add the rest)
+            </label>
+            <label className="flex items-center gap-2 text-blue-100/80">
+              <input type="radio" checked={mode === "replace"} onChange={() => setMode("replace")} />
+              Replace the board ({boardSize} player{boardSize === 1 ? "" : "s"} now)
+            </label>
+            <button
+              type="button"
+              className="rounded-full bg-green-500/90 px-4 py-2 text-sm font-semibold text-black disabled:opacity-40"
+              disabled={!validRows.length || status !== "idle"}
+              onClick={commit}
+            >
+              {status === "importing"
+                ? "Importing..."
+                : `Import ${validRows.length} player${validRows.length === 1 ? "" : "s"}`}
+            </button>
+            {invalidCount > 0 && (
+              <span className="text-xs text-red-200">
+                {invalidCount} row{invalidCount === 1 ? "" : "s"} with errors will be skipped
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
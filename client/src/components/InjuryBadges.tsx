@@ -0,0 +1,41 @@
+import React from "react";
+import { normalizeInjuryStatus, type PlayerInjury } from "../../../shared/scoring";
+
+const STATUS_STYLES: Record<string, { short: string; className: string }> = {
+  Questionable: { short: "Q", className: "bg-amber-500/20 text-amber-200" },
+  Doubtful: { short: "D", className: "bg-orange-500/20 text-orange-200" },
+  Out: { short: "O", className: "bg-red-500/20 text-red-200" },
+  IR: { short: "IR", className: "bg-red-500/30 text-red-100" }
+};
+
+export default function InjuryBadges({ injury }: { injury: PlayerInjury | null | undefined }) {
+  if (!injury) return null;
+  const status = normalizeInjuryStatus(injury.injuryStatus);
+  const style = status ? STATUS_STYLES[status] : null;
+  const outTeammates = injury.opportunity || [];
+  if (!style && !outTeammates.length) return null;
+
+  return (
+    <span className="inline-flex flex-wrap gap-1">
+      {style && (
+        <span
+          className={`rounded-full px-2 py-0.5 text-[10px] font-semibold ${style.className}`}
+          title={`${status}${injury.injuryBodyPart ? ` (${injury.injuryBodyPart})` : ""}`}
+        >
+          {style.short}
+          {injury.injuryBodyPart ? ` · ${injury.injuryBodyPart}` : ""}
+        </span>
+      )}
+      {!!outTeammates.length && (
+        <span
+          className="rounded-full bg-emerald-500/20 px-2 py-0.5 text-[10px] font-semibold text-emerald-200"
+          title={`Out ahead of them: ${outTeammates
+            .map((teammate) => `${teammate.fullName} (${teammate.injuryStatus || teammate.status || "out"})`)
+            .join(", ")}`}
+        >
+          Opportunity
+        </span>
+      )}
+    </span>
+  );
+}
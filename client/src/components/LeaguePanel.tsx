@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from "react";
+import type { LeagueSnapshot } from "../lib/league";
+
+const WAIVER_LABELS: Record<LeagueSnapshot["waiver"]["type"], string> = {
+  rolling: "Rolling waivers",
+  "reverse-standings": "Reverse-standings waivers",
+  faab: "FAAB"
+};
+
+type LeaguePanelProps = {
+  league: LeagueSnapshot | null;
+  leagueId: string | null;
+  status: "idle" | "loading" | "ready" | "error";
+  error: string | null;
+  freeAgentsOnly: boolean;
+  onImport: (leagueId: string) => void;
+  onDisconnect: () => void;
+  onFreeAgentsOnlyChange: (value: boolean) => void;
+};
+
+export default function LeaguePanel({
+  league,
+  leagueId,
+  status,
+  error,
+  freeAgentsOnly,
+  onImport,
+  onDisconnect,
+  onFreeAgentsOnlyChange
+}: LeaguePanelProps) {
+  const [draftId, setDraftId] = useState(leagueId || "");
+
+  useEffect(() => {
+    setDraftId(leagueId || "");
+  }, [leagueId]);
+
+  const rosteredCount = league?.teams.reduce((sum, team) => sum + team.players.length, 0) ?? 0;
+
+  return (
+    <section className="glass-panel p-4 space-y-3">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">Sleeper league</h3>
+          <p className="text-xs text-blue-100/70">
+            Import rosters by league ID to flag rostered players and filter suggestions to free agents.
+          </p>
+        </div>
+        <form
+          className="flex flex-wrap items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (draftId.trim()) onImport(draftId.trim());
+          }}
+        >
+          <input
+            className="rounded-xl border border-white/10 bg-black/20 px-3 py-2 text-sm"
+            placeholder="League ID"
+            value={draftId}
+            onChange={(e) => setDraftId(e.target.value)}
+          />
+          <button
+            type="submit"
+            className="rounded-full bg-blue-500 px-4 py-2 text-sm font-semibold text-black disabled:opacity-60"
+            disabled={status === "loading" || !draftId.trim()}
+          >
+            {status === "loading" ? "Importing..." : league ? "Refresh" : "Import"}
+          </button>
+          {leagueId && (
+            <button
+              type="button"
+              className="rounded-full border border-white/20 px-4 py-2 text-sm text-white/80 hover:bg-white/10"
+              onClick={onDisconnect}
+            >
+              Disconnect
+            </button>
+          )}
+        </form>
+      </div>
+
+      {error && <p className="rounded-xl bg-red-500/20 px-4 py-2 text-sm text-red-200">{error}</p>}
+
+      {league && (
+        <div className="flex flex-col gap-2 text-sm md:flex-row md:items-center md:justify-between">
+          <p className="text-blue-100/90">
+            <span className="font-semibold text-white">{league.name}</span>
+            {league.season ? ` (${league.season})` : ""} - {league.teams.length} teams, {rosteredCount} rostered
+            players - {WAIVER_LABELS[league.waiver.type]}
+            {league.waiver.budget !== null ? ` $${league.waiver.budget}` : ""}
+            {league.waiver.clearDays !== null ? `, clears after ${league.waiver.clearDays} days` : ""}
+          </p>
+          <label className="flex items-center gap-2 text-sm text-blue-100/80">
+            <input
+              type="checkbox"
+              checked={freeAgentsOnly}
+              onChange={(e) => onFreeAgentsOnlyChange(e.target.checked)}
+            />
+            Free agents only
+          </label>
+        </div>
+      )}
+    </section>
+  );
+}
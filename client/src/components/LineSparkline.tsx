@@ -0,0 +1,79 @@
+import React from "react";
+import type { TeamLineHistory } from "../lib/lineHistory";
+
+type LineSparklineProps = {
+  label: string;
+  points: Array<{ label: string; value: number | null }>;
+  /** Highlights the line when the market has moved sharply. */
+  sharp?: boolean;
+};
+
+const WIDTH = 64;
+const HEIGHT = 18;
+const PAD = 2;
+
+/** Inline sparkline for a line's movement since open; renders nothing until there are two readings. */
+export default function LineSparkline({ label, points, sharp = false }: LineSparklineProps) {
+  const known = points.filter((point): point is { label: string; value: number } => point.value !== null);
+  if (known.length < 2) return null;
+
+  const values = known.map((point) => point.value);
+  const min = Math.min(...values);
+  const span = Math.max(...values) - min || 1;
+  const x = (index: number) => PAD + (index / (known.length - 1)) * (WIDTH - PAD * 2);
+  const y = (value: number) => HEIGHT - PAD - ((value - min) / span) * (HEIGHT - PAD * 2);
+  const first = known[0];
+  const last = known[known.length - 1];
+  const change = Number((last.value - first.value).toFixed(1));
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      width={WIDTH}
+      height={HEIGHT}
+      className={`inline-block align-middle ${sharp ? "text-amber-300" : "text-blue-300"}`}
+      role="img"
+      aria-label={`${label} moved ${change > 0 ? "+" : ""}${change} since open`}
+    >
+      <title>
+        {label}: {first.value} at open ({first.label}), {last.value} now ({last.label})
+      </title>
+      <polyline
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        points={known.map((point, index) => `${x(index)},${y(point.value)}`).join(" ")}
+      />
+      <circle cx={x(known.length - 1)} cy={y(last.value)} r={2} fill="currentColor" />
+    </svg>
+  );
+}
+
+type SharpMoveBadgesProps = {
+  history: TeamLineHistory | null | undefined;
+  /** One "Sharp move" tag with the details on hover, for tight table cells. */
+  compact?: boolean;
+};
+
+/** Amber tags for moves past the sharp thresholds, e.g. "Implied total up 3.5 since open". */
+export function SharpMoveBadges({ history, compact = false }: SharpMoveBadgesProps) {
+  const sharp = history?.movement?.sharp || [];
+  if (!sharp.length) return null;
+  const badgeClass = "rounded-full bg-amber-500/15 px-2 py-0.5 text-[10px] font-semibold text-amber-200";
+  if (compact) {
+    return (
+      <span className={`mt-1 inline-block ${badgeClass}`} title={sharp.map((move) => move.text).join("\n")}>
+        Sharp move
+      </span>
+    );
+  }
+  return (
+    <div className="flex flex-wrap gap-1">
+      {sharp.map((move) => (
+        <span key={move.key} className={badgeClass}>
+          {move.text}
+        </span>
+      ))}
+    </div>
+  );
+}
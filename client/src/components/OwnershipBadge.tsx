@@ -0,0 +1,20 @@
+import React from "react";
+import type { LeagueOwner } from "../lib/league";
+
+export default function OwnershipBadge({ owner }: { owner: LeagueOwner | null | undefined }) {
+  if (owner) {
+    return (
+      <span
+        className="inline-block rounded-full bg-red-500/20 px-2 py-0.5 text-[10px] font-semibold text-red-200"
+        title={`Rostered by ${owner.ownerName}`}
+      >
+        Rostered: {owner.teamName}
+      </span>
+    );
+  }
+  return (
+    <span className="inline-block rounded-full bg-emerald-500/20 px-2 py-0.5 text-[10px] font-semibold text-emerald-200">
+      Available
+    </span>
+  );
+}
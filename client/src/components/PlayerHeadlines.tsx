@@ -0,0 +1,28 @@
+import React, { useEffect, useState } from "react";
+import { fetchPlayerNews, formatNewsTimestamp, type NewsItem } from "../lib/news";
+
+export default function PlayerHeadlines({ sleeperId }: { sleeperId: string }) {
+  const [items, setItems] = useState<NewsItem[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchPlayerNews(sleeperId).then((news) => {
+      if (!cancelled) setItems(news);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [sleeperId]);
+
+  if (!items.length) return null;
+  return (
+    <ul className="mt-1 max-w-xs space-y-0.5 text-xs font-normal">
+      {items.map((item) => (
+        <li key={item.id} className="text-blue-100/80" title={item.analysis}>
+          {item.headline}
+          {item.createdAt && <span className="ml-1 text-blue-200/60">{formatNewsTimestamp(item.createdAt)}</span>}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,284 @@
+import React, { useRef } from "react";
+import {
+  INJURY_STATUSES,
+  SCORE_BUCKETS,
+  SCORING_FORMATS,
+  type ScoreBucket,
+  type ScoringFormat,
+  type ScoringProfile,
+  type StatRule
+} from "../../../shared/scoring";
+
+type ProfileEditorProps = {
+  profile: ScoringProfile;
+  importErrors: string[];
+  onChange: (profile: ScoringProfile) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onExport: () => void;
+  onImport: (text: string) => void;
+  onClose: () => void;
+};
+
+const inputClass =
+  "w-full rounded-lg border border-white/10 bg-black/20 px-2 py-1 text-sm disabled:cursor-not-allowed disabled:opacity-60";
+
+const SCORING_FORMAT_LABELS: Record<ScoringFormat, string> = {
+  ppr: "PPR",
+  "half-ppr": "Half-PPR",
+  standard: "Standard"
+};
+
+const numberOr = (value: string, fallback: number) => {
+  const num = Number(value);
+  return value === "" || !Number.isFinite(num) ? fallback : num;
+};
+
+export default function ProfileEditor({
+  profile,
+  importErrors,
+  onChange,
+  onDuplicate,
+  onDelete,
+  onExport,
+  onImport,
+  onClose
+}: ProfileEditorProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const locked = Boolean(profile.builtIn);
+
+  const updateRule = (index: number, patch: Partial<StatRule>) =>
+    onChange({
+      ...profile,
+      statRules: profile.statRules.map((rule, idx) => (idx === index ? { ...rule, ...patch } : rule))
+    });
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    onImport(await file.text());
+  };
+
+  return (
+    <section className="glass-panel p-6 space-y-5">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold">Scoring profile: {profile.name}</h2>
+          <p className="text-sm text-blue-100/80">
+            {locked
+              ? "Built-in profiles are read-only. Duplicate one to tune it for your league."
+              : "Edits apply immediately and every board score recomputes."}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            className="rounded-full border border-white/20 px-4 py-2 text-sm text-white/80 hover:bg-white/10"
+            onClick={onDuplicate}
+          >
+            Duplicate
+          </button>
+          <button
+            className="rounded-full border border-white/20 px-4 py-2 text-sm text-white/80 hover:bg-white/10"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            Import JSON
+          </button>
+          <button
+            className="rounded-full border border-white/20 px-4 py-2 text-sm text-white/80 hover:bg-white/10"
+            onClick={onExport}
+          >
+            Export JSON
+          </button>
+          {!locked && (
+            <button
+              className="rounded-full border border-white/20 px-4 py-2 text-sm text-red-200 hover:bg-red-500/10"
+              onClick={onDelete}
+            >
+              Delete
+            </button>
+          )}
+          <button
+            className="rounded-full bg-blue-500 px-4 py-2 text-sm font-semibold text-black"
+            onClick={onClose}
+          >
+            Done
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+        </div>
+      </div>
+
+      {importErrors.length > 0 && (
+        <ul className="rounded-xl bg-red-500/20 px-4 py-2 text-sm text-red-200">
+          {importErrors.map((message) => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid gap-3 md:grid-cols-3">
+        <label className="flex flex-col gap-1 text-sm">
+          <span className="text-xs uppercase tracking-widest text-blue-200">Name</span>
+          <input
+            className={inputClass}
+            value={profile.name}
+            disabled={locked}
+            onChange={(e) => onChange({ ...profile, name: e.target.value })}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm">
+          <span className="text-xs uppercase tracking-widest text-blue-200">Description</span>
+          <input
+            className={inputClass}
+            value={profile.description || ""}
+            disabled={locked}
+            onChange={(e) => onChange({ ...profile, description: e.target.value })}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm">
+          <span className="text-xs uppercase tracking-widest text-blue-200">Projection format</span>
+          <select
+            className={inputClass}
+            value={profile.scoringFormat}
+            disabled={locked}
+            onChange={(e) => onChange({ ...profile, scoringFormat: e.target.value as ScoringFormat })}
+          >
+            {SCORING_FORMATS.map((format) => (
+              <option key={format} value={format}>
+                {SCORING_FORMAT_LABELS[format]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <p className="text-xs uppercase tracking-widest text-blue-200">Bucket weights (max points)</p>
+          <div className="grid grid-cols-2 gap-2">
+            {SCORE_BUCKETS.map((bucket: ScoreBucket) => (
+              <label key={bucket} className="flex flex-col gap-1 text-xs capitalize text-blue-100/80">
+                {bucket}
+                <input
+                  type="number"
+                  className={inputClass}
+                  value={profile.bucketWeights[bucket]}
+                  disabled={locked}
+                  onChange={(e) =>
+                    onChange({
+                      ...profile,
+                      bucketWeights: {
+                        ...profile.bucketWeights,
+                        [bucket]: numberOr(e.target.value, profile.bucketWeights[bucket])
+                      }
+                    })
+                  }
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-2">
+          <p className="text-xs uppercase tracking-widest text-blue-200">Position multipliers</p>
+          <div className="grid grid-cols-2 gap-2">
+            {Object.entries(profile.positionMultipliers).map(([position, multiplier]) => (
+              <label key={position} className="flex flex-col gap-1 text-xs text-blue-100/80">
+                {position}
+                <input
+                  type="number"
+                  step="0.01"
+                  className={inputClass}
+                  value={multiplier}
+                  disabled={locked}
+                  onChange={(e) =>
+                    onChange({
+                      ...profile,
+                      positionMultipliers: {
+                        ...profile.positionMultipliers,
+                        [position]: numberOr(e.target.value, multiplier)
+                      }
+                    })
+                  }
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs uppercase tracking-widest text-blue-200">Injury discounts (% of score removed)</p>
+        <div className="grid grid-cols-2 gap-2 md:grid-cols-4">
+          {INJURY_STATUSES.map((status) => (
+            <label key={status} className="flex flex-col gap-1 text-xs text-blue-100/80">
+              {status}
+              <input
+                type="number"
+                min={0}
+                max={100}
+                className={inputClass}
+                value={profile.injuryDiscounts[status]}
+                disabled={locked}
+                onChange={(e) =>
+                  onChange({
+                    ...profile,
+                    injuryDiscounts: {
+                      ...profile.injuryDiscounts,
+                      [status]: Math.min(numberOr(e.target.value, profile.injuryDiscounts[status]), 100)
+                    }
+                  })
+                }
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs uppercase tracking-widest text-blue-200">Stat rules (first keyword match wins)</p>
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[560px] text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase tracking-widest text-blue-100/70">
+                <th className="px-2 py-1">Keywords</th>
+                <th className="px-2 py-1">Bucket</th>
+                <th className="px-2 py-1">Weight</th>
+              </tr>
+            </thead>
+            <tbody>
+              {profile.statRules.map((rule, index) => (
+                <tr key={`${rule.keywords.join("|")}-${index}`} className="border-t border-white/5">
+                  <td className="px-2 py-1 text-blue-100/80">{rule.keywords.join(", ")}</td>
+                  <td className="px-2 py-1">
+                    <select
+                      className={inputClass}
+                      value={rule.bucket}
+                      disabled={locked}
+                      onChange={(e) => updateRule(index, { bucket: e.target.value as ScoreBucket })}
+                    >
+                      {SCORE_BUCKETS.map((bucket) => (
+                        <option key={bucket} value={bucket}>
+                          {bucket}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-2 py-1">
+                    <input
+                      type="number"
+                      step="0.01"
+                      className={inputClass}
+                      value={rule.weight}
+                      disabled={locked}
+                      onChange={(e) => updateRule(index, { weight: numberOr(e.target.value, rule.weight) })}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </section>
+  );
+}
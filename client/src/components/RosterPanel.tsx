@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from "react";
+import type { AddDropPair, Lineup } from "../../../shared/scoring";
+import type { LeagueSnapshot } from "../lib/league";
+import { formatRosterSlots, parseRosterSlots } from "../lib/roster";
+import type { Player } from "../lib/types";
+
+type RosterPanelProps = {
+  roster: Player[];
+  slots: string[];
+  lineup: Lineup<Player>;
+  recommendations: Array<AddDropPair<Player>>;
+  league: LeagueSnapshot | null;
+  onSlotsChange: (slots: string[]) => void;
+  onImportTeam: (rosterId: number) => void;
+  onEdit: (player: Player) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+};
+
+const signed = (value: number) => `${value > 0 ? "+" : ""}${value}`;
+
+export default function RosterPanel({
+  roster,
+  slots,
+  lineup,
+  recommendations,
+  league,
+  onSlotsChange,
+  onImportTeam,
+  onEdit,
+  onRemove,
+  onClear
+}: RosterPanelProps) {
+  const [slotText, setSlotText] = useState(formatRosterSlots(slots));
+  const [teamId, setTeamId] = useState("");
+
+  useEffect(() => {
+    setSlotText(formatRosterSlots(slots));
+  }, [slots]);
+
+  const starterIds = new Set(lineup.starters.map((starter) => starter.player?.id).filter(Boolean));
+  const byScore = [...roster].sort((a, b) => (b.score || 0) - (a.score || 0));
+
+  return (
+    <section className="glass-panel p-6 space-y-4">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold">My roster</h2>
+          <p className="text-sm text-blue-100/80">
+            Score your own players with the same engine, then see which waiver adds are worth a drop.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {league && (
+            <>
+              <select
+                className="rounded-xl border border-white/10 bg-night-800 px-3 py-2 text-sm"
+                value={teamId}
+                onChange={(e) => setTeamId(e.target.value)}
+              >
+                <option value="">Pick your Sleeper team</option>
+                {league.teams.map((team) => (
+                  <option key={team.rosterId} value={team.rosterId}>
+                    {team.teamName}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                className="rounded-full bg-blue-500 px-4 py-2 text-sm font-semibold text-black disabled:opacity-60"
+                disabled={!teamId}
+                onClick={() => onImportTeam(Number(teamId))}
+              >
+                Import roster
+              </button>
+            </>
+          )}
+          <button
+            type="button"
+            className="rounded-full border border-white/20 px-4 py-2 text-sm text-white/80 hover:bg-white/10"
+            onClick={onClear}
+            disabled={!roster.length}
+          >
+            Clear roster
+          </button>
+        </div>
+      </div>
+
+      <label className="flex flex-col gap-1 text-xs text-blue-100/80">
+        Starting slots (Sleeper names: QB, RB, WR, TE, FLEX, WRRB_FLEX, REC_FLEX, SUPER_FLEX, K, DEF)
+        <input
+          className="rounded-xl border border-white/10 bg-black/20 px-3 py-2 text-sm text-white"
+          value={slotText}
+          onChange={(e) => setSlotText(e.target.value)}
+          onBlur={() => onSlotsChange(parseRosterSlots(slotText))}
+        />
+      </label>
+
+      {!roster.length ? (
+        <p className="text-sm text-blue-100/70">
+          No roster yet. Switch the form above to &ldquo;My roster&rdquo;
+          {league ? " or import your Sleeper team" : ""} to add players.
+        </p>
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-2">
+          <div className="space-y-2">
+            <p className="text-xs uppercase tracking-widest text-blue-300">
+              Starting lineup · {lineup.total} pts{lineup.emptySlots ? ` · ${lineup.emptySlots} empty` : ""}
+            </p>
+            <ul className="space-y-1 text-sm">
+              {lineup.starters.map((starter, index) => (
+                <li key={`${starter.slot}-${index}`} className="flex justify-between rounded-lg bg-black/20 px-3 py-1.5">
+                  <span className="w-24 text-xs text-blue-200">{starter.slot}</span>
+                  <span className="flex-1 text-white">{starter.player?.name || "Empty"}</span>
+                  <span className="font-semibold">{starter.player?.score ?? "-"}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div className="space-y-2">
+            <p className="text-xs uppercase tracking-widest text-blue-300">Roster</p>
+            <ul className="space-y-1 text-sm">
+              {byScore.map((player) => (
+                <li key={player.id} className="flex items-center gap-2 rounded-lg bg-black/20 px-3 py-1.5">
+                  <span className="w-10 text-xs text-blue-200">{player.position}</span>
+                  <span className="flex-1 text-white">
+                    {player.name}
+                    {!starterIds.has(player.id) && <span className="ml-2 text-xs text-blue-100/50">bench</span>}
+                    {!Object.keys(player.stats || {}).length && (
+                      <span className="ml-2 text-xs text-amber-200">no stats</span>
+                    )}
+                  </span>
+                  <span className="font-semibold">{player.score ?? "-"}</span>
+                  <button
+                    type="button"
+                    className="text-xs text-blue-200 hover:underline"
+                    onClick={() => onEdit(player)}
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    className="text-xs text-red-200 hover:underline"
+                    onClick={() => onRemove(player.id)}
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      {!!roster.length && (
+        <div className="space-y-2">
+          <p className="text-xs uppercase tracking-widest text-blue-300">Add / drop suggestions</p>
+          {!recommendations.length ? (
+            <p className="text-sm text-blue-100/70">No waiver target on the board beats a player you can afford to drop.</p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {recommendations.map((pair) => (
+                <li
+                  key={`${pair.add.id}-${pair.drop.id}`}
+                  className="flex flex-wrap items-center gap-x-3 rounded-lg border border-white/10 bg-black/20 px-3 py-2"
+                >
+                  <span className="text-green-200">
+                    Add {pair.add.name} ({pair.add.position}, {pair.add.score})
+                  </span>
+                  <span className="text-red-200">
+                    Drop {pair.drop.name} ({pair.drop.position}, {pair.drop.score})
+                  </span>
+                  <span className="ml-auto text-blue-100/80">
+                    Lineup {pair.lineupBefore} → {pair.lineupAfter} ({signed(pair.lineupDelta)})
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
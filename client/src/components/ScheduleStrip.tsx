@@ -0,0 +1,44 @@
+import React from "react";
+import { FANTASY_PLAYOFF_WEEKS, type ScheduleGame } from "../../../shared/scoring";
+import { getDefenseTier } from "../lib/defense";
+
+type ScheduleStripProps = {
+  games: ScheduleGame[];
+  highlightPlayoffs?: boolean;
+};
+
+export default function ScheduleStrip({ games, highlightPlayoffs = false }: ScheduleStripProps) {
+  if (!games.length) return null;
+  return (
+    <div className="mt-1 flex flex-wrap gap-1">
+      {games.map((game) => {
+        const playoff = highlightPlayoffs && FANTASY_PLAYOFF_WEEKS.includes(game.week);
+        const ring = playoff ? "ring-1 ring-blue-300" : "";
+        if (!game.opponent) {
+          return (
+            <span
+              key={game.week}
+              title={`Week ${game.week}: bye`}
+              className={`rounded px-1 text-[10px] font-normal text-white/40 bg-white/5 ${ring}`}
+            >
+              BYE
+            </span>
+          );
+        }
+        const tier = getDefenseTier(game.defRank);
+        return (
+          <span
+            key={game.week}
+            title={`Week ${game.week}: ${game.homeAway === "away" ? "@" : "vs"} ${game.opponent} (DEF rank ${
+              game.defRank ?? "N/A"
+            })`}
+            className={`rounded px-1 text-[10px] font-normal ${tier.className || "bg-white/5 text-white/70"} ${ring}`}
+          >
+            {game.homeAway === "away" ? "@" : ""}
+            {game.opponent}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import React from "react";
+import { SCORE_BUCKETS, type ScoreBreakdown } from "../../../shared/scoring";
+
+const BUCKET_LABELS: Record<string, string> = {
+  opportunity: "Opportunity",
+  efficiency: "Efficiency",
+  leverage: "Leverage",
+  production: "Production"
+};
+
+const formatDelta = (value: number) => `${value > 0 ? "+" : ""}${value.toFixed(1)}`;
+
+export default function ScoreBreakdownPanel({ breakdown }: { breakdown: ScoreBreakdown }) {
+  return (
+    <div className="grid gap-4 text-xs text-blue-100/80 md:grid-cols-3">
+      <div className="space-y-2">
+        <p className="uppercase tracking-widest text-blue-300">Buckets</p>
+        {SCORE_BUCKETS.map((bucket) => {
+          const entry = breakdown.buckets[bucket];
+          return (
+            <div key={bucket}>
+              <div className="flex justify-between">
+                <span className="text-white">{BUCKET_LABELS[bucket]}</span>
+                <span>
+                  {entry.points.toFixed(1)} / {entry.weight} pts
+                </span>
+              </div>
+              <div className="mt-1 h-1.5 rounded-full bg-white/10">
+                <div className="h-1.5 rounded-full bg-blue-400" style={{ width: `${entry.normalized * 100}%` }} />
+              </div>
+              <p className="text-blue-100/60">
+                Raw {entry.raw.toFixed(2)} - {Math.round(entry.normalized * 100)}% of cap
+              </p>
+            </div>
+          );
+        })}
+        <p className="text-blue-100/60">
+          Position multiplier x{breakdown.positionMultiplier} - base {breakdown.baseScore.toFixed(1)}
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <p className="uppercase tracking-widest text-blue-300">Matched stat rules</p>
+        {breakdown.rules.length === 0 && <p>No stats matched a scoring rule.</p>}
+        <ul className="space-y-1">
+          {breakdown.rules.map((rule) => (
+            <li key={rule.stat} className="flex justify-between gap-2">
+              <span>
+                <span className="text-white">{rule.stat}</span> = {rule.value}
+                <span className="ml-1 text-blue-100/60">
+                  ({BUCKET_LABELS[rule.bucket]} x{rule.weight})
+                </span>
+              </span>
+              <span className="text-white">{formatDelta(rule.contribution)}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="space-y-2">
+        <p className="uppercase tracking-widest text-blue-300">Context adjustments</p>
+        {breakdown.adjustments.length === 0 && <p>No Vegas, defense, or weather adjustments applied.</p>}
+        <ul className="space-y-1">
+          {breakdown.adjustments.map((adjustment) => (
+            <li key={adjustment.key} className="flex justify-between gap-2">
+              <span>{adjustment.label}</span>
+              <span className={adjustment.delta >= 0 ? "text-green-200" : "text-red-200"}>
+                {formatDelta(adjustment.delta)}
+              </span>
+            </li>
+          ))}
+        </ul>
+        <p className="border-t border-white/10 pt-1 text-white">Final score {breakdown.score}</p>
+      </div>
+    </div>
+  );
+}
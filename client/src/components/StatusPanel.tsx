@@ -0,0 +1,132 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { DEFAULT_TEAM_TOTAL } from "../../../shared/scoring";
+import { formatCacheAge } from "../lib/freshness";
+import { fetchServerStatus, type ServerStatus, type SourceState, type SourceStatus } from "../lib/status";
+import type { Player } from "../lib/types";
+
+const REFRESH_MS = 60 * 1000;
+const NAMES_SHOWN = 4;
+
+const STATE_STYLES: Record<SourceState, { dot: string; label: string }> = {
+  ok: { dot: "bg-green-400", label: "Live" },
+  stale: { dot: "bg-amber-300", label: "Stale" },
+  fallback: { dot: "bg-amber-300", label: "Fallback" },
+  down: { dot: "bg-red-400", label: "Down" },
+  idle: { dot: "bg-white/30", label: "Not used yet" }
+};
+
+type StatusPanelProps = {
+  players: Player[];
+  /** Set when the client could not load defense ranks and is scoring against league-average defenses. */
+  defenseFallback: boolean;
+};
+
+// Players saved before the hasLine flag existed stored the default implied total in place of a line.
+const usesDefaultImplied = (player: Player) =>
+  player.hasLine === undefined
+    ? player.overUnder == null && (player.impliedTotal == null || player.impliedTotal === DEFAULT_TEAM_TOTAL)
+    : !player.hasLine;
+
+const nameList = (players: Player[]) =>
+  players
+    .slice(0, NAMES_SHOWN)
+    .map((player) => player.name)
+    .join(", ") + (players.length > NAMES_SHOWN ? ` and ${players.length - NAMES_SHOWN} more` : "");
+
+function SourceRow({ source }: { source: SourceStatus }) {
+  const style = STATE_STYLES[source.status];
+  let detail = source.cache ? `Data from ${formatCacheAge(source.cache)}` : "Nothing fetched yet";
+  if (source.status === "down" || source.status === "stale") {
+    if (source.lastError) detail = `${detail} - last error: ${source.lastError.message}`;
+  }
+  return (
+    <li className="flex items-start gap-3 rounded-xl border border-white/10 bg-black/20 px-3 py-2">
+      <span className={`mt-1.5 h-2 w-2 flex-none rounded-full ${style.dot}`} />
+      <div className="min-w-0 text-xs">
+        <p className="text-sm text-white">
+          {source.label} <span className="text-blue-100/60">{style.label}</span>
+          {source.mode !== "live" && (
+            <span className="ml-2 rounded-full border border-white/20 px-2 text-[10px] uppercase tracking-widest text-blue-100/70">
+              {source.mode}
+            </span>
+          )}
+        </p>
+        {source.fallback && <p className="text-amber-200">Using {source.fallback}</p>}
+        <p className="truncate text-blue-100/60" title={detail}>
+          {detail}
+        </p>
+      </div>
+    </li>
+  );
+}
+
+/** Which numbers on the dashboard are live, which are stale, and which are stand-in defaults. */
+export default function StatusPanel({ players, defenseFallback }: StatusPanelProps) {
+  const [status, setStatus] = useState<ServerStatus | null>(null);
+  const [loadState, setLoadState] = useState<"loading" | "ready" | "error">("loading");
+
+  const refresh = useCallback(async () => {
+    const data = await fetchServerStatus();
+    setStatus(data);
+    setLoadState(data ? "ready" : "error");
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const timer = window.setInterval(refresh, REFRESH_MS);
+    return () => window.clearInterval(timer);
+  }, [refresh]);
+
+  const defaultImplied = players.filter(usesDefaultImplied);
+  const missingWeather = players.filter((player) => !player.weather);
+  const boardNotes = [
+    defaultImplied.length &&
+      `${nameList(defaultImplied)} ${defaultImplied.length === 1 ? "has" : "have"} no Vegas line, so the team is scored at the ${DEFAULT_TEAM_TOTAL}-point baseline.`,
+    missingWeather.length &&
+      `${nameList(missingWeather)} ${missingWeather.length === 1 ? "has" : "have"} no forecast, so weather is not scored.`,
+    defenseFallback && "Defense ranks failed to load; every opponent is scored as a league-average defense."
+  ].filter((note): note is string => Boolean(note));
+
+  return (
+    <section className="glass-panel p-4 space-y-3">
+      <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">Data status</h3>
+          <p className="text-xs text-blue-100/70">
+            Where each number comes from right now. Stale data is still shown while the server refreshes it.
+          </p>
+        </div>
+        <button
+          type="button"
+          className="rounded-full border border-white/20 px-3 py-1 text-xs text-white/80 hover:bg-white/10"
+          onClick={refresh}
+        >
+          Refresh
+        </button>
+      </div>
+
+      {loadState === "loading" && <p className="text-sm text-blue-100/70">Checking upstream sources...</p>}
+      {loadState === "error" && (
+        <p className="text-sm text-red-200">
+          The API proxy is unreachable, so Vegas, weather, news, and Sleeper data are all unavailable.
+        </p>
+      )}
+      {status && (
+        <ul className="grid gap-2 md:grid-cols-2 lg:grid-cols-3">
+          {status.sources.map((source) => (
+            <SourceRow key={source.id} source={source} />
+          ))}
+        </ul>
+      )}
+
+      {!!boardNotes.length && (
+        <div className="space-y-1 text-xs text-amber-200">
+          <p className="uppercase tracking-widest text-blue-100/60">On this board</p>
+          {boardNotes.map((note) => (
+            <p key={note}>{note}</p>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
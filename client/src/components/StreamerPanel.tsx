@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from "react";
+import { fetchStreamers, type StreamerEntry, type StreamerPosition } from "../lib/streamers";
+import type { WeekSelection } from "../lib/weeks";
+
+const POSITIONS: StreamerPosition[] = ["DST", "K", "QB"];
+const VISIBLE_COUNT = 10;
+
+type StreamerPanelProps = {
+  week: WeekSelection;
+  onPick: (entry: StreamerEntry, position: StreamerPosition) => void;
+};
+
+export default function StreamerPanel({ week, onPick }: StreamerPanelProps) {
+  const [position, setPosition] = useState<StreamerPosition>("DST");
+  const [entries, setEntries] = useState<StreamerEntry[]>([]);
+  const [status, setStatus] = useState<"loading" | "ready" | "error">("loading");
+
+  useEffect(() => {
+    let cancelled = false;
+    setStatus("loading");
+    fetchStreamers(position, week).then((data) => {
+      if (cancelled) return;
+      setEntries(data || []);
+      setStatus(data ? "ready" : "error");
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [position, week]);
+
+  return (
+    <section className="glass-panel p-4 space-y-3">
+      <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">Weekly streamers</h3>
+          <p className="text-xs text-blue-100/70">
+            Ranked from this week&apos;s Vegas lines and defense ranks - no stat entry needed.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {POSITIONS.map((pos) => (
+            <button
+              key={pos}
+              className={`rounded-full px-3 py-1 text-xs ${
+                pos === position ? "bg-blue-500 font-semibold text-black" : "border border-white/20 text-white/80"
+              }`}
+              onClick={() => setPosition(pos)}
+            >
+              {pos}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {status === "loading" && <p className="text-sm text-blue-100/70">Ranking the slate...</p>}
+      {status === "error" && (
+        <p className="text-sm text-red-200">Streamer rankings are unavailable until the scoreboard loads.</p>
+      )}
+      {status === "ready" && entries.length === 0 && (
+        <p className="text-sm text-blue-100/70">No games with Vegas lines found for this week.</p>
+      )}
+
+      <div className="grid gap-2 md:grid-cols-2">
+        {entries.slice(0, VISIBLE_COUNT).map((entry) => (
+          <button
+            key={entry.team}
+            type="button"
+            className="rounded-lg border border-white/10 bg-black/20 p-3 text-left hover:bg-white/10"
+            title={entry.factors.map((factor) => `${factor.label}: +${factor.points}`).join("\n")}
+            onClick={() => onPick(entry, position)}
+          >
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-semibold text-white">
+                #{entry.rank} {entry.team} {position}
+                <span className="ml-1 text-blue-200">
+                  {entry.homeAway === "home" ? "vs" : "@"} {entry.opponent}
+                </span>
+              </p>
+              <span className="text-sm font-semibold">{entry.score}</span>
+            </div>
+            <p className="text-xs text-blue-100/80">
+              Implied {entry.impliedTotal ?? "N/A"} - Opp implied {entry.opponentImpliedTotal ?? "N/A"} - O/U{" "}
+              {entry.overUnder}
+            </p>
+          </button>
+        ))}
+      </div>
+    </section>
+  );
+}
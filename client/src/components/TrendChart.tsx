@@ -0,0 +1,76 @@
+import React from "react";
+
+type TrendChartProps = {
+  title: string;
+  points: Array<{ label: string; value: number | null }>;
+};
+
+const WIDTH = 260;
+const HEIGHT = 90;
+const PAD = 10;
+
+const formatValue = (value: number) => (Math.abs(value) < 1 ? value.toFixed(2) : String(Number(value.toFixed(1))));
+
+export default function TrendChart({ title, points }: TrendChartProps) {
+  const known = points
+    .map((point, index) => ({ ...point, index }))
+    .filter((point): point is { label: string; value: number; index: number } => point.value !== null);
+
+  if (!known.length) {
+    return (
+      <div className="rounded-xl border border-white/10 bg-black/20 p-3">
+        <p className="text-xs uppercase tracking-widest text-blue-300">{title}</p>
+        <p className="mt-6 text-center text-xs text-blue-100/50">Not logged</p>
+      </div>
+    );
+  }
+
+  const values = known.map((point) => point.value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+  const stepX = points.length > 1 ? (WIDTH - PAD * 2) / (points.length - 1) : 0;
+  const x = (index: number) => (points.length > 1 ? PAD + index * stepX : WIDTH / 2);
+  const y = (value: number) => HEIGHT - PAD - ((value - min) / span) * (HEIGHT - PAD * 2);
+  const first = known[0].value;
+  const last = known[known.length - 1].value;
+  const change = last - first;
+  const trendClass = change > 0 ? "text-green-300" : change < 0 ? "text-red-300" : "text-blue-100/70";
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-black/20 p-3">
+      <div className="flex items-baseline justify-between">
+        <p className="text-xs uppercase tracking-widest text-blue-300">{title}</p>
+        <p className="text-sm font-semibold text-white">
+          {formatValue(last)}
+          {known.length > 1 && (
+            <span className={`ml-2 text-xs ${trendClass}`}>
+              {change > 0 ? "+" : ""}
+              {formatValue(change)}
+            </span>
+          )}
+        </p>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="mt-2 w-full" role="img" aria-label={`${title} by week`}>
+        <polyline
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={2}
+          className="text-blue-300"
+          points={known.map((point) => `${x(point.index)},${y(point.value)}`).join(" ")}
+        />
+        {known.map((point) => (
+          <circle key={point.index} cx={x(point.index)} cy={y(point.value)} r={3} className="fill-blue-200">
+            <title>
+              {point.label}: {formatValue(point.value)}
+            </title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-[10px] text-blue-100/50">
+        <span>{points[0]?.label}</span>
+        <span>{points[points.length - 1]?.label}</span>
+      </div>
+    </div>
+  );
+}
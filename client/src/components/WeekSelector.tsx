@@ -0,0 +1,55 @@
+import React, { useEffect, useState } from "react";
+import {
+  fetchNflCalendar,
+  parseWeekSelectionKey,
+  weekSelectionKey,
+  type NflCalendar,
+  type WeekSelection
+} from "../lib/weeks";
+
+type WeekSelectorProps = {
+  id: string;
+  value: WeekSelection;
+  onChange: (week: WeekSelection) => void;
+};
+
+export default function WeekSelector({ id, value, onChange }: WeekSelectorProps) {
+  const [calendar, setCalendar] = useState<NflCalendar | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchNflCalendar().then((data) => {
+      if (!cancelled) setCalendar(data);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const current = calendar?.current;
+  const weeks = calendar?.weeks || [];
+  // Only the current week and the ones still ahead have lines worth querying.
+  const currentIndex = current
+    ? weeks.findIndex((week) => week.seasonType === current.seasonType && week.week === current.week)
+    : -1;
+  const upcoming = currentIndex >= 0 ? weeks.slice(currentIndex + 1) : [];
+
+  return (
+    <select
+      id={id}
+      className="rounded-xl border border-white/10 bg-night-800 px-4 py-2 text-sm"
+      value={weekSelectionKey(value)}
+      onChange={(e) => onChange(parseWeekSelectionKey(e.target.value))}
+    >
+      <option value="current">Current week{current ? ` (${current.label})` : ""}</option>
+      {upcoming.map((week) => {
+        const key = weekSelectionKey({ seasonType: week.seasonType, week: week.week });
+        return (
+          <option key={key} value={key}>
+            {week.label}
+          </option>
+        );
+      })}
+    </select>
+  );
+}
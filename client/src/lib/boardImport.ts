@@ -0,0 +1,308 @@
+import { normalizePosition, normalizeWeather, type GameWeather, type PlayerInjury } from "../../../shared/scoring";
+import { parseCsv } from "./csv";
+import { pickPlayerInjury } from "./injuries";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_SERVER_URL || "http://localhost:5000";
+const SEARCH_CONCURRENCY = 4;
+
+export type ImportMode = "merge" | "replace";
+
+type MetaField = "name" | "position" | "team" | "opponent" | "impliedTotal" | "overUnder" | "spread" | "defRank" | "weather";
+
+export type ImportRow = {
+  /** Source row number (the CSV header is row 1) for error messages. */
+  line: number;
+  name: string;
+  position: string;
+  team: string;
+  opponent: string;
+  impliedTotal: number | null;
+  overUnder: number | null;
+  spread: number | null;
+  defRank: number | null;
+  weather: GameWeather | null;
+  stats: Record<string, number>;
+  sleeperId: string | null;
+  injury: PlayerInjury | null;
+  errors: string[];
+  warnings: string[];
+};
+
+export type ImportPreview = {
+  rows: ImportRow[];
+  /** Source column -> the field or predictive stat it fills. */
+  mappedColumns: Record<string, string>;
+  /** Columns that match nothing, such as the score and FAAB columns of our own export. */
+  ignoredColumns: string[];
+  error: string | null;
+};
+
+type SearchMatch = { id: string; fullName: string; team: string; position: string; opponent?: string | null } & Partial<
+  PlayerInjury
+>;
+
+const compact = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Header spellings for the non-stat columns, compared after `compact`. The export's own headers are listed first.
+const META_ALIASES: Record<MetaField, string[]> = {
+  name: ["name", "player", "playername", "fullname"],
+  position: ["pos", "position"],
+  team: ["team", "tm"],
+  opponent: ["opp", "opponent", "vs"],
+  impliedTotal: ["implied", "impliedtotal"],
+  overUnder: ["ou", "overunder", "gametotal"],
+  spread: ["spread"],
+  defRank: ["def", "defrank", "defenserank"],
+  weather: ["weather"]
+};
+const META_BY_ALIAS = new Map(
+  (Object.entries(META_ALIASES) as Array<[MetaField, string[]]>).flatMap(([field, aliases]) =>
+    aliases.map((alias) => [alias, field] as const)
+  )
+);
+
+// A predictive label matches its full text, the text before its parenthetical ("Routes"), or a
+// parenthetical that spells out an abbreviation ("Targets per Route Run" for TPRR).
+function statAliases(label: string) {
+  const aliases = new Set([compact(label)]);
+  const match = label.match(/^(.*?)\s*\((.*)\)\s*$/);
+  if (match) {
+    aliases.add(compact(match[1]));
+    if (!/^last\s*\d+$/i.test(match[2].trim())) aliases.add(compact(match[2]));
+  }
+  return aliases;
+}
+
+function buildStatIndex(fieldsByPosition: Record<string, string[]>) {
+  const index = new Map<string, string>();
+  Object.values(fieldsByPosition)
+    .flat()
+    .forEach((label) => {
+      statAliases(label).forEach((alias) => {
+        if (alias && !index.has(alias)) index.set(alias, label);
+      });
+    });
+  return index;
+}
+
+// Blank cells and the export's "N/A"/"-" placeholders mean "no value"; "EVEN" spreads are zero.
+function parseNumber(value: unknown): number | null | "invalid" {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "number") return Number.isFinite(value) ? value : "invalid";
+  const text = String(value).trim();
+  if (!text || /^(n\/a|na|-)$/i.test(text)) return null;
+  if (/^(even|pk)$/i.test(text)) return 0;
+  const num = Number(text.replace(/%$/, ""));
+  return Number.isFinite(num) ? num : "invalid";
+}
+
+const EMPTY_WEATHER: GameWeather = {
+  roof: null,
+  kickoff: null,
+  tempF: null,
+  rainChance: null,
+  windMph: null,
+  gustMph: null
+};
+
+// The CSV export writes weather as formatWeather text ("Dome", "72F, 10% rain, wind 12 mph (gusts 20)"),
+// so read the wind and roof back out alongside the temperature and rain the legacy parser handles.
+function parseWeatherCell(value: unknown): GameWeather | null {
+  if (typeof value !== "string") return normalizeWeather(value);
+  const text = value.trim();
+  if (/^dome$/i.test(text)) return { ...EMPTY_WEATHER, roof: "dome" };
+  const base = normalizeWeather(text);
+  const wind = text.match(/wind\s+(\d+)\s*mph/i);
+  const gusts = text.match(/gusts\s+(\d+)/i);
+  if (!base && !wind) return null;
+  return {
+    ...(base || EMPTY_WEATHER),
+    roof: /retractable roof/i.test(text) ? "retractable" : base?.roof ?? null,
+    windMph: wind ? Number(wind[1]) : null,
+    gustMph: gusts ? Number(gusts[1]) : null
+  };
+}
+
+type RawRecord = { line: number; values: Record<string, unknown> };
+
+// JSON imports take an array of players (or `{ players }` / `{ data }`); a nested `stats` object is flattened.
+function readJson(parsed: unknown): RawRecord[] | null {
+  const list = Array.isArray(parsed)
+    ? parsed
+    : Array.isArray((parsed as { players?: unknown })?.players)
+    ? (parsed as { players: unknown[] }).players
+    : Array.isArray((parsed as { data?: unknown })?.data)
+    ? (parsed as { data: unknown[] }).data
+    : null;
+  if (!list) return null;
+  return list
+    .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === "object")
+    .map((entry, index) => {
+      const { stats, ...rest } = entry;
+      const values: Record<string, unknown> = { ...rest };
+      if (stats && typeof stats === "object") Object.assign(values, stats);
+      return { line: index + 1, values };
+    });
+}
+
+function readRecords(text: string): RawRecord[] | null {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    try {
+      return readJson(JSON.parse(trimmed));
+    } catch {
+      return null;
+    }
+  }
+  const [headers, ...rows] = parseCsv(trimmed);
+  if (!headers) return [];
+  return rows.map((cells, index) => ({
+    line: index + 2,
+    values: Object.fromEntries(headers.map((header, column) => [header.trim(), cells[column] ?? ""]))
+  }));
+}
+
+/**
+ * Parses pasted or uploaded CSV/JSON into board rows and validates them against each position's
+ * predictive fields. Our own CSV export and JSON backups read back as-is; their score and FAAB
+ * columns are listed as ignored.
+ */
+export function previewImport(text: string, fieldsByPosition: Record<string, string[]>): ImportPreview {
+  const records = readRecords(text);
+  if (!records) {
+    return { rows: [], mappedColumns: {}, ignoredColumns: [], error: "That file is neither CSV nor a JSON list of players." };
+  }
+  if (!records.length) {
+    return { rows: [], mappedColumns: {}, ignoredColumns: [], error: "No rows found to import." };
+  }
+
+  const statIndex = buildStatIndex(fieldsByPosition);
+  const columns = Array.from(new Set(records.flatMap((record) => Object.keys(record.values))));
+  const mappedColumns: Record<string, string> = {};
+  const metaColumns: Partial<Record<MetaField, string>> = {};
+  const statColumns: Record<string, string> = {};
+  const ignoredColumns: string[] = [];
+  columns.forEach((column) => {
+    const key = compact(column);
+    const meta = META_BY_ALIAS.get(key);
+    const stat = statIndex.get(key);
+    if (meta && !metaColumns[meta]) {
+      metaColumns[meta] = column;
+      mappedColumns[column] = meta;
+    } else if (stat && !Object.values(statColumns).includes(stat)) {
+      statColumns[column] = stat;
+      mappedColumns[column] = stat;
+    } else {
+      ignoredColumns.push(column);
+    }
+  });
+
+  const rows = records.map(({ line, values }) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const text = (field: MetaField) => {
+      const column = metaColumns[field];
+      return column ? String(values[column] ?? "").trim() : "";
+    };
+    const number = (field: MetaField, label: string) => {
+      const column = metaColumns[field];
+      const value = column ? parseNumber(values[column]) : null;
+      if (value === "invalid") {
+        errors.push(`${label} "${values[column!]}" is not a number.`);
+        return null;
+      }
+      return value;
+    };
+
+    const name = text("name");
+    const position = normalizePosition(text("position"));
+    const fields = fieldsByPosition[position];
+    if (!name) errors.push("Missing player name.");
+    if (!fields) errors.push(position ? `Unknown position "${position}".` : "Missing position.");
+
+    const stats: Record<string, number> = {};
+    Object.entries(statColumns).forEach(([column, label]) => {
+      const value = parseNumber(values[column]);
+      if (value === null) return;
+      if (value === "invalid") {
+        errors.push(`${label} "${values[column]}" is not a number.`);
+      } else if (fields && !fields.includes(label)) {
+        warnings.push(`${label} is not a ${position} field and was skipped.`);
+      } else {
+        stats[label] = value;
+      }
+    });
+    if (fields && !Object.keys(stats).length) errors.push("No predictive stats for this player.");
+
+    const weatherText = metaColumns.weather ? values[metaColumns.weather] : null;
+    return {
+      line,
+      name,
+      position,
+      team: text("team").toUpperCase(),
+      opponent: text("opponent").toUpperCase(),
+      impliedTotal: number("impliedTotal", "Implied total"),
+      overUnder: number("overUnder", "O/U"),
+      spread: number("spread", "Spread"),
+      defRank: number("defRank", "DEF rank"),
+      weather: parseWeatherCell(weatherText),
+      stats,
+      sleeperId: null,
+      injury: null,
+      errors,
+      warnings
+    };
+  });
+
+  return { rows, mappedColumns, ignoredColumns, error: null };
+}
+
+async function searchPlayer(name: string): Promise<SearchMatch[]> {
+  try {
+    const res = await fetch(`${API_BASE_URL}/api/player-search?query=${encodeURIComponent(name)}&limit=6`);
+    if (!res.ok) return [];
+    const json = await res.json();
+    return (json?.data || []) as SearchMatch[];
+  } catch (err) {
+    console.warn("Player search failed:", err);
+    return [];
+  }
+}
+
+function resolveRow(row: ImportRow, matches: SearchMatch[]): ImportRow {
+  const samePosition = matches.filter((match) => normalizePosition(match.position) === row.position);
+  const match = row.team ? samePosition.find((candidate) => candidate.team === row.team) : samePosition[0];
+  const next = { ...row, errors: [...row.errors], warnings: [...row.warnings] };
+
+  if (match) {
+    next.team = next.team || match.team;
+    next.opponent = next.opponent || (match.opponent ?? "");
+    next.sleeperId = String(match.id);
+    next.injury = pickPlayerInjury(match);
+  } else if (row.team && samePosition.length) {
+    next.warnings.push(`Sleeper lists ${samePosition[0].fullName} on ${samePosition[0].team}; kept ${row.team} from the file.`);
+  } else {
+    next.warnings.push("No Sleeper match; imported without injury or news data.");
+  }
+  if (!next.team) next.errors.push("Missing team and no Sleeper match to fill it.");
+  if (!next.opponent) next.errors.push("Missing opponent and no scheduled game to fill it.");
+  return next;
+}
+
+/** Matches each valid row to a Sleeper player, filling team, opponent, id, and injury fields the file left out. */
+export async function resolveImportRows(rows: ImportRow[]): Promise<ImportRow[]> {
+  const resolved = [...rows];
+  let cursor = 0;
+  const worker = async () => {
+    while (cursor < rows.length) {
+      const index = cursor;
+      cursor += 1;
+      const row = rows[index];
+      if (row.errors.length) continue;
+      resolved[index] = resolveRow(row, await searchPlayer(row.name));
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(SEARCH_CONCURRENCY, rows.length) }, worker));
+  return resolved;
+}
@@ -0,0 +1,117 @@
+import type { Player } from "./types";
+import { weekQueryParams, type WeekSelection } from "./weeks";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_SERVER_URL || "http://localhost:5000";
+const DEFAULT_BOARD_ID = process.env.NEXT_PUBLIC_BOARD_ID || "default";
+
+/** An upsert carries the week the player was scored for, which the server snapshots it under. */
+export type BoardOp =
+  | { type: "upsert"; player: Player; week?: WeekSelection }
+  | { type: "delete"; id: string }
+  | { type: "clear" };
+
+export type SyncStatus = "local" | "syncing" | "synced" | "offline";
+
+// Boards are shared by link: `?board=my-league` switches every teammate to the same list.
+export function resolveBoardId(): string {
+  if (typeof window === "undefined") return DEFAULT_BOARD_ID;
+  const fromUrl = new URLSearchParams(window.location.search).get("board");
+  return (fromUrl || DEFAULT_BOARD_ID).trim().toLowerCase();
+}
+
+const boardUrl = (boardId: string, playerId?: string) =>
+  `${API_BASE_URL}/api/boards/${encodeURIComponent(boardId)}/players${
+    playerId ? `/${encodeURIComponent(playerId)}` : ""
+  }`;
+
+export async function fetchBoardPlayers(boardId: string): Promise<Player[] | null> {
+  try {
+    const res = await fetch(boardUrl(boardId));
+    if (!res.ok) return null;
+    const json = await res.json();
+    return (json?.data || []) as Player[];
+  } catch (err) {
+    console.warn("Board fetch failed:", err);
+    return null;
+  }
+}
+
+type SendResult = { status: "delivered" } | { status: "retry" } | { status: "rejected"; error: string };
+
+async function sendOp(boardId: string, op: BoardOp): Promise<SendResult> {
+  const res =
+    op.type === "upsert"
+      ? await fetch(`${boardUrl(boardId, op.player.id)}${op.week ? `?${weekQueryParams(op.week)}` : ""}`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(op.player)
+        })
+      : await fetch(boardUrl(boardId, op.type === "delete" ? op.id : undefined), { method: "DELETE" });
+  // A 404 on delete means someone else already removed the player, which is the outcome we wanted.
+  if (res.ok || (op.type === "delete" && res.status === 404)) return { status: "delivered" };
+  if (res.status >= 500) return { status: "retry" };
+  const json = await res.json().catch(() => null);
+  return { status: "rejected", error: json?.error || `Request failed (${res.status})` };
+}
+
+export type RejectedBoardOp = { op: BoardOp; error: string };
+
+/**
+ * Replays queued board edits in order. Stops at the first network or server error so later edits
+ * never overtake earlier ones, and returns what is left to retry. Edits the server refuses (4xx)
+ * would fail the same way forever, so they are dropped and returned as `rejected` instead.
+ */
+export async function flushBoardOps(
+  boardId: string,
+  ops: BoardOp[]
+): Promise<{ undelivered: BoardOp[]; rejected: RejectedBoardOp[] }> {
+  const rejected: RejectedBoardOp[] = [];
+  for (let i = 0; i < ops.length; i += 1) {
+    let result: SendResult;
+    try {
+      result = await sendOp(boardId, ops[i]);
+    } catch {
+      result = { status: "retry" };
+    }
+    if (result.status === "retry") return { undelivered: ops.slice(i), rejected };
+    if (result.status === "rejected") rejected.push({ op: ops[i], error: result.error });
+  }
+  return { undelivered: [], rejected };
+}
+
+/**
+ * Queues an upsert for every cached player the queue doesn't already cover. Used the first time a
+ * browser syncs a board, so players saved locally before then are uploaded instead of being
+ * replaced by the server copy.
+ */
+export function seedBoardOps(queue: BoardOp[], players: Player[]): BoardOp[] {
+  const queuedIds = new Set(
+    queue.map((op) => (op.type === "upsert" ? op.player.id : op.type === "delete" ? op.id : null))
+  );
+  const seeds: BoardOp[] = players
+    .filter((player) => !queuedIds.has(player.id))
+    .map((player) => ({ type: "upsert", player }));
+  return [...queue, ...seeds];
+}
+
+/** Adds an edit to the queue, collapsing edits that a later one makes redundant. */
+export function enqueueBoardOp(queue: BoardOp[], op: BoardOp): BoardOp[] {
+  if (op.type === "clear") return [op];
+  const targetId = op.type === "upsert" ? op.player.id : op.id;
+  const remaining = queue.filter((queued) => {
+    if (queued.type === "clear") return true;
+    const queuedId = queued.type === "upsert" ? queued.player.id : queued.id;
+    return queuedId !== targetId;
+  });
+  return [...remaining, op];
+}
+
+/** Applies queued edits on top of the server copy so unsynced local work stays visible. */
+export function applyBoardOps(players: Player[], ops: BoardOp[]): Player[] {
+  return ops.reduce((list, op) => {
+    if (op.type === "clear") return [];
+    if (op.type === "delete") return list.filter((p) => p.id !== op.id);
+    const exists = list.some((p) => p.id === op.player.id);
+    return exists ? list.map((p) => (p.id === op.player.id ? op.player : p)) : [...list, op.player];
+  }, players);
+}
@@ -0,0 +1,7 @@
+// Defense ranks run from 1 (stingiest) to 32 (softest).
+export const getDefenseTier = (rank?: number | null) => {
+  if (typeof rank !== "number") return { label: "", className: "" };
+  if (rank <= 8) return { label: "Tough", className: "bg-red-500/10 text-red-200" };
+  if (rank <= 16) return { label: "Neutral", className: "bg-yellow-500/10 text-yellow-200" };
+  return { label: "Soft", className: "bg-green-500/10 text-green-200" };
+};
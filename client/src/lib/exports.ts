@@ -0,0 +1,103 @@
+import { saveAs } from "file-saver";
+import type { FaabBid } from "../../../shared/scoring";
+import { toCsv } from "./csv";
+import type { Player } from "./types";
+
+export type ExportFormat = "csv" | "json" | "xlsx" | "markdown";
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV (every stat)",
+  json: "JSON backup",
+  xlsx: "Excel workbook (sheet per position)",
+  markdown: "Markdown summary (copies for chat)"
+};
+
+export type ExportCell = string | number | null | undefined;
+export type ExportTable = ExportCell[][];
+
+export const BACKUP_VERSION = 1;
+
+export type BoardBackup = {
+  version: number;
+  exportedAt: string;
+  boardId: string | null;
+  profileId: string;
+  viewMode: string;
+  players: Player[];
+};
+
+export function downloadCsv(table: ExportTable, filename: string) {
+  // The byte-order mark makes Excel read the file as UTF-8 instead of the system code page.
+  const blob = new Blob(["\uFEFF", toCsv(table)], { type: "text/csv;charset=utf-8" });
+  saveAs(blob, filename);
+}
+
+/** Saves every player with all of their fields; the import panel reads it back as a board. */
+export function downloadBackup(backup: Omit<BoardBackup, "version" | "exportedAt">, filename: string) {
+  const payload: BoardBackup = { version: BACKUP_VERSION, exportedAt: new Date().toISOString(), ...backup };
+  const blob = new Blob([JSON.stringify(payload, null, 2)], { type: "application/json" });
+  saveAs(blob, filename);
+}
+
+// Excel caps sheet names at 31 characters and forbids a handful of symbols.
+const sheetName = (name: string) => name.replace(/[\\/?*[\]:]/g, " ").slice(0, 31) || "Sheet";
+
+/** Writes one worksheet per entry. ExcelJS is loaded on demand so it stays out of the main bundle. */
+export async function downloadWorkbook(sheets: Array<{ name: string; rows: ExportTable }>, filename: string) {
+  const { Workbook } = await import("exceljs");
+  const workbook = new Workbook();
+  sheets.forEach((sheet) => {
+    workbook.addWorksheet(sheetName(sheet.name)).addRows(sheet.rows.map((row) => row.map((cell) => cell ?? null)));
+  });
+  const data = await workbook.xlsx.writeBuffer();
+  saveAs(
+    new Blob([data], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" }),
+    filename
+  );
+}
+
+export function downloadText(text: string, filename: string, type = "text/markdown;charset=utf-8") {
+  saveAs(new Blob([text], { type }), filename);
+}
+
+type MarkdownSummaryOptions = {
+  title: string;
+  players: Player[];
+  positions: string[];
+  bids?: Map<string, FaabBid>;
+  perPosition?: number;
+};
+
+/** "BUF vs MIA" at home, "BUF @ MIA" on the road; "vs" when the venue isn't known. */
+export const matchupLabel = (player: Pick<Player, "team" | "opponent" | "homeAway">) =>
+  `${player.team} ${player.homeAway === "away" ? "@" : "vs"} ${player.opponent}`;
+
+const injuryTag = (player: Player) => (player.injury?.injuryStatus ? ` [${player.injury.injuryStatus}]` : "");
+
+/**
+ * Top targets at each position as a plain Markdown list. Lists (not tables) survive pasting into
+ * chat apps, which rarely render Markdown tables.
+ */
+export function buildMarkdownSummary({ title, players, positions, bids, perPosition = 3 }: MarkdownSummaryOptions) {
+  const lines = [`**${title}**`];
+  positions.forEach((position) => {
+    const top = players
+      .filter((player) => player.position === position)
+      .sort((a, b) => (b.score || 0) - (a.score || 0))
+      .slice(0, perPosition);
+    if (!top.length) return;
+    lines.push("", `**${position}**`);
+    top.forEach((player, index) => {
+      const parts = [`score ${player.score ?? "-"}`];
+      if (player.projection) {
+        parts.push(`proj ${player.projection.median} pts (${player.projection.floor}-${player.projection.ceiling})`);
+      }
+      const bid = bids?.get(player.id);
+      if (bid) parts.push(`FAAB $${bid.median}`);
+      lines.push(
+        `${index + 1}. ${player.name} (${matchupLabel(player)})${injuryTag(player)} - ${parts.join(", ")}`
+      );
+    });
+  });
+  return lines.join("\n");
+}
@@ -0,0 +1,53 @@
+import { DEFAULT_FAAB_BUDGET, FANTASY_SEASON_WEEKS } from "../../../shared/scoring";
+import { playerMatchKey } from "./league";
+import type { NflWeek } from "./weeks";
+
+const FAAB_STORAGE_KEY = "fantasy-waiver-tool-faab";
+
+export type FaabSettings = {
+  totalBudget: number;
+  remainingBudget: number;
+  weeksLeft: number;
+};
+
+export const DEFAULT_FAAB_SETTINGS: FaabSettings = {
+  totalBudget: DEFAULT_FAAB_BUDGET,
+  remainingBudget: DEFAULT_FAAB_BUDGET,
+  weeksLeft: FANTASY_SEASON_WEEKS
+};
+
+export function loadFaabSettings(): FaabSettings | null {
+  try {
+    const stored = localStorage.getItem(FAAB_STORAGE_KEY);
+    if (!stored) return null;
+    const parsed = JSON.parse(stored) as Partial<FaabSettings>;
+    return { ...DEFAULT_FAAB_SETTINGS, ...parsed };
+  } catch (err) {
+    console.warn("Failed to load FAAB settings", err);
+    return null;
+  }
+}
+
+export function saveFaabSettings(settings: FaabSettings) {
+  localStorage.setItem(FAAB_STORAGE_KEY, JSON.stringify(settings));
+}
+
+/** Fantasy weeks left including the current one; the preseason counts as the whole season. */
+export function weeksLeftFrom(current: NflWeek | null): number {
+  if (!current || current.seasonType === 1) return FANTASY_SEASON_WEEKS;
+  if (current.seasonType !== 2) return 1;
+  return Math.min(Math.max(FANTASY_SEASON_WEEKS - current.week + 1, 1), FANTASY_SEASON_WEEKS);
+}
+
+export function indexTrendingAdds(
+  entries: Array<{ fullName: string; position: string; team: string; count: number }>
+): Map<string, number> {
+  return new Map(entries.map((entry) => [playerMatchKey(entry.fullName, entry.position, entry.team), entry.count]));
+}
+
+export function findTrendingAdds(
+  adds: Map<string, number>,
+  player: { name: string; position: string; team: string }
+): number {
+  return adds.get(playerMatchKey(player.name, player.position, player.team)) ?? 0;
+}
@@ -0,0 +1,19 @@
+/** How old a server-cached upstream response is, as reported in each API response's `cache` field. */
+export type CacheAge = {
+  fetchedAt: string;
+  ageSeconds: number;
+  /** Past its refresh interval; the server is fetching a newer copy in the background. */
+  stale: boolean;
+};
+
+export type CacheAges = Record<string, CacheAge | null | undefined>;
+
+export function formatCacheAge(age: CacheAge | null | undefined): string {
+  if (!age) return "unknown";
+  const minutes = Math.floor(age.ageSeconds / 60);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours} hr ago`;
+  return `${Math.floor(hours / 24)} days ago`;
+}
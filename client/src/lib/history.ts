@@ -0,0 +1,71 @@
+const API_BASE_URL = process.env.NEXT_PUBLIC_SERVER_URL || "http://localhost:5000";
+
+export type PlayerSnapshot = {
+  playerId: string;
+  season: number;
+  seasonType: number;
+  week: number;
+  name: string;
+  position: string;
+  team: string;
+  opponent: string | null;
+  score: number | null;
+  impliedTotal: number | null;
+  defRank: number | null;
+  stats: Record<string, number>;
+  recordedAt: string;
+};
+
+export type TrendMetric = {
+  key: string;
+  label: string;
+  value: (snapshot: PlayerSnapshot) => number | null;
+};
+
+const statValue = (stats: Record<string, number>, matches: (key: string) => boolean) => {
+  const key = Object.keys(stats || {}).find((statKey) => matches(statKey.toLowerCase()));
+  const value = key ? Number(stats[key]) : NaN;
+  return Number.isFinite(value) ? value : null;
+};
+
+// Stat labels differ slightly by position, so each metric matches on the label's wording.
+export const TREND_METRICS: TrendMetric[] = [
+  { key: "score", label: "Score", value: (snapshot) => snapshot.score },
+  { key: "routes", label: "Routes", value: (snapshot) => statValue(snapshot.stats, (key) => key.startsWith("routes")) },
+  {
+    key: "tprr",
+    label: "TPRR",
+    value: (snapshot) =>
+      statValue(snapshot.stats, (key) => key.includes("tprr") || key.includes("targets per route"))
+  },
+  { key: "targets", label: "Targets", value: (snapshot) => statValue(snapshot.stats, (key) => key.startsWith("targets (")) }
+];
+
+export const snapshotWeekLabel = (snapshot: Pick<PlayerSnapshot, "seasonType" | "week">) =>
+  snapshot.seasonType === 3 ? `P${snapshot.week}` : snapshot.seasonType === 1 ? `Pre${snapshot.week}` : `W${snapshot.week}`;
+
+export async function fetchBoardHistory(boardId: string, playerId?: string): Promise<PlayerSnapshot[] | null> {
+  try {
+    const params = playerId ? `?playerId=${encodeURIComponent(playerId)}` : "";
+    const res = await fetch(`${API_BASE_URL}/api/boards/${encodeURIComponent(boardId)}/history${params}`);
+    if (!res.ok) return null;
+    const json = await res.json();
+    return (json?.data || []) as PlayerSnapshot[];
+  } catch (err) {
+    console.error("Board history fetch error:", err);
+    return null;
+  }
+}
+
+/** Records every board player for the current week and returns how many were saved. */
+export async function recordBoardSnapshots(boardId: string): Promise<number | null> {
+  try {
+    const res = await fetch(`${API_BASE_URL}/api/boards/${encodeURIComponent(boardId)}/snapshots`, { method: "POST" });
+    if (!res.ok) return null;
+    const json = await res.json();
+    return json?.data?.recorded ?? 0;
+  } catch (err) {
+    console.error("Board snapshot error:", err);
+    return null;
+  }
+}
@@ -0,0 +1,43 @@
+import { normalizePosition, type PlayerInjury } from "../../../shared/scoring";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_SERVER_URL || "http://localhost:5000";
+
+/** Copies the injury fields off a player-lookup, player-search, or trending entry. */
+export function pickPlayerInjury(entry: Partial<PlayerInjury>): PlayerInjury {
+  return {
+    injuryStatus: entry.injuryStatus ?? null,
+    injuryBodyPart: entry.injuryBodyPart ?? null,
+    status: entry.status ?? null,
+    depthChartPosition: entry.depthChartPosition ?? null,
+    depthChartOrder: entry.depthChartOrder ?? null,
+    opportunity: entry.opportunity || []
+  };
+}
+
+export const sameInjury = (a: PlayerInjury | null | undefined, b: PlayerInjury | null | undefined) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export type SleeperMatch = { sleeperId: string; injury: PlayerInjury };
+
+/**
+ * Looks the player up on Sleeper and returns their id and current injury fields. Resolves to null
+ * when the lookup fails or lands on a different team or position, so a bad match never overwrites data.
+ */
+export async function fetchSleeperMatch(player: {
+  name: string;
+  position: string;
+  team: string;
+}): Promise<SleeperMatch | null> {
+  try {
+    const res = await fetch(`${API_BASE_URL}/api/player-lookup?name=${encodeURIComponent(player.name)}`);
+    if (!res.ok) return null;
+    const json = await res.json();
+    const match = json?.match;
+    if (!match || match.team !== player.team.toUpperCase()) return null;
+    if (normalizePosition(match.position) !== normalizePosition(player.position)) return null;
+    return { sleeperId: String(match.id), injury: pickPlayerInjury(match) };
+  } catch (err) {
+    console.warn("Sleeper lookup failed:", err);
+    return null;
+  }
+}
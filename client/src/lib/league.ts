@@ -0,0 +1,92 @@
+import { normalizePosition } from "../../../shared/scoring";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_SERVER_URL || "http://localhost:5000";
+const LEAGUE_STORAGE_KEY = "fantasy-waiver-tool-league";
+
+export type LeagueOwner = {
+  rosterId: number;
+  ownerName: string;
+  teamName: string;
+};
+
+export type LeagueTeam = LeagueOwner & {
+  ownerId: string | null;
+  waiverPosition: number | null;
+  faabRemaining: number | null;
+  players: Array<{
+    id: string;
+    fullName: string;
+    team: string | null;
+    position: string | null;
+    opponent: string | null;
+  }>;
+};
+
+export type LeagueSnapshot = {
+  leagueId: string;
+  name: string;
+  season: string | null;
+  status: string | null;
+  totalRosters: number;
+  rosterPositions: string[];
+  waiver: {
+    type: "rolling" | "reverse-standings" | "faab";
+    budget: number | null;
+    clearDays: number | null;
+    dayOfWeek: number | null;
+  };
+  teams: LeagueTeam[];
+};
+
+export function loadLeagueId(): string | null {
+  return localStorage.getItem(LEAGUE_STORAGE_KEY);
+}
+
+export function saveLeagueId(leagueId: string | null) {
+  if (leagueId) localStorage.setItem(LEAGUE_STORAGE_KEY, leagueId);
+  else localStorage.removeItem(LEAGUE_STORAGE_KEY);
+}
+
+export async function fetchLeague(leagueId: string): Promise<{ league: LeagueSnapshot | null; error: string | null }> {
+  try {
+    const res = await fetch(`${API_BASE_URL}/api/sleeper/league/${encodeURIComponent(leagueId)}`);
+    const json = await res.json().catch(() => null);
+    if (!res.ok) return { league: null, error: json?.error || "League import failed." };
+    return { league: json.data as LeagueSnapshot, error: null };
+  } catch (err) {
+    console.error("League import error:", err);
+    return { league: null, error: "League import failed. Make sure the API proxy is running." };
+  }
+}
+
+const normalizeName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[.'’]/g, "")
+    .replace(/\b(jr|sr|ii|iii|iv|v)\b/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// Board players are typed by hand, so they are matched by name and position; team defenses by team.
+export const playerMatchKey = (name: string, position: string | null, team: string | null) => {
+  const normalized = normalizePosition(position || "");
+  return normalized === "DST" ? `DST|${team}` : `${normalizeName(name)}|${normalized}`;
+};
+
+export function indexLeagueOwners(league: LeagueSnapshot | null): Map<string, LeagueOwner> {
+  const owners = new Map<string, LeagueOwner>();
+  league?.teams.forEach((team) => {
+    const owner = { rosterId: team.rosterId, ownerName: team.ownerName, teamName: team.teamName };
+    team.players.forEach((player) => {
+      owners.set(playerMatchKey(player.fullName, player.position, player.team), owner);
+    });
+  });
+  return owners;
+}
+
+export function findLeagueOwner(
+  owners: Map<string, LeagueOwner>,
+  player: { name: string; position: string; team: string }
+): LeagueOwner | null {
+  return owners.get(playerMatchKey(player.name, player.position, player.team)) || null;
+}
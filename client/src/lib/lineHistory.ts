@@ -0,0 +1,58 @@
+import { weekQueryParams, type WeekSelection } from "./weeks";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_SERVER_URL || "http://localhost:5000";
+
+/** One saved line from a team's side: negative spreads mean the team is favored. */
+export type LinePoint = {
+  recordedAt: string;
+  team: string;
+  spread: number | null;
+  overUnder: number | null;
+  impliedTotal: number | null;
+  opponentImpliedTotal: number | null;
+};
+
+export type LineKey = "impliedTotal" | "overUnder" | "spread";
+
+export type SharpMove = { key: LineKey; delta: number; text: string };
+
+export type TeamLineHistory = {
+  team: string;
+  opponent: string;
+  gameId: string;
+  kickoff: string | null;
+  points: LinePoint[];
+  movement: {
+    open: LinePoint;
+    current: LinePoint;
+    moves: Record<LineKey, number | null>;
+    /** Moves past the server's thresholds, such as an implied total up 3+ points since open. */
+    sharp: SharpMove[];
+  } | null;
+};
+
+/** Line history for every team with recorded lines that week, keyed by team. Null when unavailable (no database). */
+export async function fetchLineHistory(week: WeekSelection = null): Promise<Record<string, TeamLineHistory> | null> {
+  try {
+    const weekParams = weekQueryParams(week);
+    const res = await fetch(`${API_BASE_URL}/api/vegas-history${weekParams ? `?${weekParams}` : ""}`);
+    if (!res.ok) return null;
+    const json = await res.json();
+    const list = (json?.data || []) as TeamLineHistory[];
+    return Object.fromEntries(list.map((entry) => [entry.team, entry]));
+  } catch (err) {
+    console.warn("Line history fetch failed:", err);
+    return null;
+  }
+}
+
+export const lineSeries = (history: TeamLineHistory | null | undefined, key: LineKey) =>
+  (history?.points || []).map((point) => ({
+    label: new Date(point.recordedAt).toLocaleString(undefined, {
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit"
+    }),
+    value: point[key]
+  }));
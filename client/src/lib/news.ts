@@ -0,0 +1,31 @@
+const API_BASE_URL = process.env.NEXT_PUBLIC_SERVER_URL || "http://localhost:5000";
+
+export type NewsItem = {
+  id: string;
+  headline: string;
+  analysis: string;
+  team?: string | null;
+  player?: string | null;
+  playerIds?: string[];
+  createdAt: string | null;
+  source?: string;
+};
+
+export const formatNewsTimestamp = (value?: string | null) => {
+  if (!value) return "";
+  const date = new Date(value);
+  return date.toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+};
+
+/** Latest headlines that mention the Sleeper player, newest first. */
+export async function fetchPlayerNews(sleeperId: string, limit = 2): Promise<NewsItem[]> {
+  try {
+    const res = await fetch(`${API_BASE_URL}/api/news?playerId=${encodeURIComponent(sleeperId)}&limit=${limit}`);
+    if (!res.ok) return [];
+    const json = await res.json();
+    return (json?.data || []) as NewsItem[];
+  } catch (err) {
+    console.warn("Player news fetch failed:", err);
+    return [];
+  }
+}
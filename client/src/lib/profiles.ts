@@ -0,0 +1,84 @@
+import { saveAs } from "file-saver";
+import { BUILT_IN_PROFILES, DEFAULT_PROFILE, normalizeProfile, type ScoringProfile } from "../../../shared/scoring";
+
+const PROFILES_STORAGE_KEY = "fantasy-waiver-tool-profiles";
+const ACTIVE_PROFILE_STORAGE_KEY = "fantasy-waiver-tool-active-profile";
+
+export function loadCustomProfiles(): ScoringProfile[] {
+  try {
+    const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
+    if (!stored) return [];
+    return (JSON.parse(stored) as unknown[])
+      .map((raw) => normalizeProfile(raw).profile)
+      .filter((profile): profile is ScoringProfile => Boolean(profile));
+  } catch (err) {
+    console.warn("Failed to load scoring profiles", err);
+    return [];
+  }
+}
+
+export function saveCustomProfiles(profiles: ScoringProfile[]) {
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+}
+
+export function loadActiveProfileId(): string {
+  return localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY) || DEFAULT_PROFILE.id;
+}
+
+export function saveActiveProfileId(id: string) {
+  localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, id);
+}
+
+/** Picks an id that collides with neither a built-in nor an existing custom profile. */
+export function uniqueProfileId(base: string, customProfiles: ScoringProfile[]): string {
+  const taken = new Set([...BUILT_IN_PROFILES, ...customProfiles].map((profile) => profile.id));
+  const slug = base.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "profile";
+  if (!taken.has(slug)) return slug;
+  let suffix = 2;
+  while (taken.has(`${slug}-${suffix}`)) suffix += 1;
+  return `${slug}-${suffix}`;
+}
+
+export function duplicateProfile(source: ScoringProfile, customProfiles: ScoringProfile[]): ScoringProfile {
+  const name = `${source.name} (custom)`;
+  return {
+    ...source,
+    id: uniqueProfileId(name, customProfiles),
+    name,
+    builtIn: false,
+    statRules: source.statRules.map((rule) => ({ ...rule, keywords: [...rule.keywords] })),
+    bucketWeights: { ...source.bucketWeights },
+    bucketNormalizers: { ...source.bucketNormalizers },
+    positionMultipliers: { ...source.positionMultipliers }
+  };
+}
+
+export function exportProfile(profile: ScoringProfile) {
+  const { builtIn, ...portable } = profile;
+  const blob = new Blob([JSON.stringify(portable, null, 2)], { type: "application/json;charset=utf-8" });
+  saveAs(blob, `scoring-profile-${profile.id}.json`);
+}
+
+/** Parses an exported profile file (a single profile or an array of them). */
+export function parseProfileImport(
+  text: string,
+  customProfiles: ScoringProfile[]
+): { profiles: ScoringProfile[]; errors: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { profiles: [], errors: ["File is not valid JSON."] };
+  }
+  const entries = Array.isArray(parsed) ? parsed : [parsed];
+  const profiles: ScoringProfile[] = [];
+  const errors: string[] = [];
+  entries.forEach((entry, index) => {
+    const { profile, errors: entryErrors } = normalizeProfile(entry);
+    const label = entries.length > 1 ? `Profile ${index + 1}: ` : "";
+    entryErrors.forEach((message) => errors.push(`${label}${message}`));
+    if (!profile || entryErrors.length) return;
+    profiles.push({ ...profile, id: uniqueProfileId(profile.id, [...customProfiles, ...profiles]) });
+  });
+  return { profiles, errors };
+}
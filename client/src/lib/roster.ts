@@ -0,0 +1,33 @@
+import { DEFAULT_ROSTER_SLOTS, normalizeRosterSlots, normalizeWeather } from "../../../shared/scoring";
+import type { Player } from "./types";
+
+const ROSTER_STORAGE_KEY = "fantasy-waiver-tool-roster";
+
+/** Our own fantasy roster, kept next to the waiver board so drops can be weighed against adds. */
+export type MyRoster = {
+  players: Player[];
+  slots: string[];
+};
+
+export function loadRoster(): MyRoster {
+  try {
+    const stored = localStorage.getItem(ROSTER_STORAGE_KEY);
+    if (!stored) return { players: [], slots: [...DEFAULT_ROSTER_SLOTS] };
+    const parsed = JSON.parse(stored) as Partial<MyRoster>;
+    return {
+      players: (parsed.players || []).map((player) => ({ ...player, weather: normalizeWeather(player.weather) })),
+      slots: normalizeRosterSlots(parsed.slots)
+    };
+  } catch (err) {
+    console.warn("Failed to load roster", err);
+    return { players: [], slots: [...DEFAULT_ROSTER_SLOTS] };
+  }
+}
+
+export function saveRoster(roster: MyRoster) {
+  localStorage.setItem(ROSTER_STORAGE_KEY, JSON.stringify(roster));
+}
+
+export const formatRosterSlots = (slots: string[]) => slots.join(", ");
+
+export const parseRosterSlots = (text: string) => normalizeRosterSlots(text.split(/[\s,]+/));
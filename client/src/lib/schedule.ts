@@ -0,0 +1,24 @@
+import type { ScheduleGame } from "../../../shared/scoring";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_SERVER_URL || "http://localhost:5000";
+
+export type SeasonSchedule = {
+  season: number;
+  fromWeek: number;
+  source: "file" | "espn";
+  /** Weeks whose scoreboards could not be loaded; they are missing from every team's list. */
+  missingWeeks: number[];
+  teams: Record<string, ScheduleGame[]>;
+};
+
+export async function fetchSchedule(): Promise<SeasonSchedule | null> {
+  try {
+    const res = await fetch(`${API_BASE_URL}/api/schedule`);
+    if (!res.ok) return null;
+    const json = await res.json();
+    return (json?.data || null) as SeasonSchedule | null;
+  } catch (err) {
+    console.error("Schedule fetch error:", err);
+    return null;
+  }
+}
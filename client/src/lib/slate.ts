@@ -0,0 +1,51 @@
+import type { GameWeather } from "../../../shared/scoring";
+import type { CacheAges } from "./freshness";
+import type { BookLine } from "./odds";
+import { weekQueryParams, type WeekSelection } from "./weeks";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_SERVER_URL || "http://localhost:5000";
+
+export type SlateTeam = {
+  abbr: string;
+  implied: number | null;
+  spread: number | null;
+};
+
+export type SlateGame = {
+  id: string;
+  name: string;
+  status: string | null;
+  kickoff: string | null;
+  venue: string | null;
+  broadcast: string | null;
+  neutralSite: boolean;
+  /** False when no book has posted a total; `overUnder` and both implied totals are then null. */
+  hasLine: boolean;
+  /** Consensus (median) total and home spread across `books`. */
+  overUnder: number | null;
+  spread: number | null;
+  bookCount: number;
+  books: BookLine[];
+  home: SlateTeam;
+  away: SlateTeam;
+  weather: GameWeather | null;
+};
+
+export type Slate = {
+  games: SlateGame[];
+  /** Ages of the cached scoreboard and of the oldest forecast on the slate. */
+  cache: CacheAges;
+};
+
+export async function fetchSlate(week: WeekSelection = null): Promise<Slate | null> {
+  try {
+    const weekParams = weekQueryParams(week);
+    const res = await fetch(`${API_BASE_URL}/api/slate${weekParams ? `?${weekParams}` : ""}`);
+    if (!res.ok) return null;
+    const json = await res.json();
+    return { games: (json?.data || []) as SlateGame[], cache: (json?.cache || {}) as CacheAges };
+  } catch (err) {
+    console.error("Slate fetch error:", err);
+    return null;
+  }
+}
@@ -1,35 +1,37 @@
+import type { RoofType } from "../../../shared/scoring";
+
 // Basic NFL team → city lookup
-export const stadiumLocations: Record<string, { lat: number; lon: number }> = {
-  "ARI": { lat: 33.5275, lon: -112.2625 }, // Glendale
-  "ATL": { lat: 33.7555, lon: -84.4008 },
-  "BAL": { lat: 39.278, lon: -76.6227 },
-  "BUF": { lat: 42.7738, lon: -78.7869 },
-  "CAR": { lat: 35.2251, lon: -80.8525 },
-  "CHI": { lat: 41.8623, lon: -87.6167 },
-  "CIN": { lat: 39.0954, lon: -84.5161 },
-  "CLE": { lat: 41.5061, lon: -81.6995 },
-  "DAL": { lat: 32.7473, lon: -97.0945 },
-  "DEN": { lat: 39.7439, lon: -105.0201 },
-  "DET": { lat: 42.3400, lon: -83.0456 },
-  "GB": { lat: 44.5013, lon: -88.0622 },
-  "HOU": { lat: 29.6847, lon: -95.4107 },
-  "IND": { lat: 39.7601, lon: -86.1639 },
-  "JAX": { lat: 30.3240, lon: -81.6376 },
-  "KC": { lat: 39.0489, lon: -94.4841 },
-  "LV": { lat: 36.0909, lon: -115.1830 },
-  "LAC": { lat: 33.9533, lon: -118.3392 },
-  "LAR": { lat: 33.9533, lon: -118.3392 },
-  "MIA": { lat: 25.9580, lon: -80.2389 },
-  "MIN": { lat: 44.9740, lon: -93.2581 },
-  "NE": { lat: 42.0909, lon: -71.2643 },
-  "NO": { lat: 29.9511, lon: -90.0812 },
-  "NYG": { lat: 40.8135, lon: -74.0745 },
-  "NYJ": { lat: 40.8135, lon: -74.0745 },
-  "PHI": { lat: 39.9008, lon: -75.1675 },
-  "PIT": { lat: 40.4468, lon: -80.0158 },
-  "SEA": { lat: 47.5952, lon: -122.3316 },
-  "SF": { lat: 37.4030, lon: -121.9703 },
-  "TB": { lat: 27.9759, lon: -82.5033 },
-  "TEN": { lat: 36.1664, lon: -86.7713 },
-  "WAS": { lat: 38.9078, lon: -76.8645 },
+export const stadiumLocations: Record<string, { lat: number; lon: number; roof: RoofType }> = {
+  "ARI": { lat: 33.5275, lon: -112.2625, roof: "retractable" }, // Glendale
+  "ATL": { lat: 33.7555, lon: -84.4008, roof: "retractable" },
+  "BAL": { lat: 39.278, lon: -76.6227, roof: "open" },
+  "BUF": { lat: 42.7738, lon: -78.7869, roof: "open" },
+  "CAR": { lat: 35.2251, lon: -80.8525, roof: "open" },
+  "CHI": { lat: 41.8623, lon: -87.6167, roof: "open" },
+  "CIN": { lat: 39.0954, lon: -84.5161, roof: "open" },
+  "CLE": { lat: 41.5061, lon: -81.6995, roof: "open" },
+  "DAL": { lat: 32.7473, lon: -97.0945, roof: "retractable" },
+  "DEN": { lat: 39.7439, lon: -105.0201, roof: "open" },
+  "DET": { lat: 42.3400, lon: -83.0456, roof: "dome" },
+  "GB": { lat: 44.5013, lon: -88.0622, roof: "open" },
+  "HOU": { lat: 29.6847, lon: -95.4107, roof: "retractable" },
+  "IND": { lat: 39.7601, lon: -86.1639, roof: "retractable" },
+  "JAX": { lat: 30.3240, lon: -81.6376, roof: "open" },
+  "KC": { lat: 39.0489, lon: -94.4841, roof: "open" },
+  "LV": { lat: 36.0909, lon: -115.1830, roof: "dome" },
+  "LAC": { lat: 33.9533, lon: -118.3392, roof: "dome" },
+  "LAR": { lat: 33.9533, lon: -118.3392, roof: "dome" },
+  "MIA": { lat: 25.9580, lon: -80.2389, roof: "open" },
+  "MIN": { lat: 44.9740, lon: -93.2581, roof: "dome" },
+  "NE": { lat: 42.0909, lon: -71.2643, roof: "open" },
+  "NO": { lat: 29.9511, lon: -90.0812, roof: "dome" },
+  "NYG": { lat: 40.8135, lon: -74.0745, roof: "open" },
+  "NYJ": { lat: 40.8135, lon: -74.0745, roof: "open" },
+  "PHI": { lat: 39.9008, lon: -75.1675, roof: "open" },
+  "PIT": { lat: 40.4468, lon: -80.0158, roof: "open" },
+  "SEA": { lat: 47.5952, lon: -122.3316, roof: "open" },
+  "SF": { lat: 37.4030, lon: -121.9703, roof: "open" },
+  "TB": { lat: 27.9759, lon: -82.5033, roof: "open" },
+  "TEN": { lat: 36.1664, lon: -86.7713, roof: "open" },
+  "WAS": { lat: 38.9078, lon: -76.8645, roof: "open" },
 };
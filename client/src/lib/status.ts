@@ -0,0 +1,36 @@
+import type { CacheAge } from "./freshness";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_SERVER_URL || "http://localhost:5000";
+
+/** ok: fresh; stale: serving an aged copy; fallback: something else stands in; down: failing with nothing cached. */
+export type SourceState = "ok" | "stale" | "fallback" | "down" | "idle";
+
+export type SourceStatus = {
+  id: string;
+  label: string;
+  /** Fixture mode (live, record, replay) for providers; "file" for bundled defense ranks. */
+  mode: string;
+  status: SourceState;
+  lastSuccess: string | null;
+  lastError: { at: string; message: string } | null;
+  fallback: string | null;
+  cache: CacheAge | null;
+};
+
+export type ServerStatus = {
+  checkedAt: string;
+  database: boolean;
+  sources: SourceStatus[];
+};
+
+export async function fetchServerStatus(): Promise<ServerStatus | null> {
+  try {
+    const res = await fetch(`${API_BASE_URL}/api/status`);
+    if (!res.ok) return null;
+    const json = await res.json();
+    return (json?.data || null) as ServerStatus | null;
+  } catch (err) {
+    console.warn("Status fetch failed:", err);
+    return null;
+  }
+}
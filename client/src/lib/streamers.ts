@@ -0,0 +1,38 @@
+import type { RoofType } from "../../../shared/scoring";
+import { weekQueryParams, type WeekSelection } from "./weeks";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_SERVER_URL || "http://localhost:5000";
+
+export type StreamerPosition = "DST" | "K" | "QB";
+
+export type StreamerEntry = {
+  rank: number;
+  team: string;
+  opponent: string;
+  homeAway: "home" | "away";
+  kickoff: string | null;
+  impliedTotal: number | null;
+  opponentImpliedTotal: number | null;
+  overUnder: number;
+  /** Null when the game has a total but no posted spread. */
+  spread: number | null;
+  roof: RoofType | null;
+  score: number;
+  factors: Array<{ label: string; points: number }>;
+};
+
+export async function fetchStreamers(
+  position: StreamerPosition,
+  week: WeekSelection = null
+): Promise<StreamerEntry[] | null> {
+  try {
+    const weekParams = weekQueryParams(week);
+    const res = await fetch(`${API_BASE_URL}/api/streamers?position=${position}${weekParams ? `&${weekParams}` : ""}`);
+    if (!res.ok) return null;
+    const json = await res.json();
+    return (json?.data || []) as StreamerEntry[];
+  } catch (err) {
+    console.error("Streamer fetch error:", err);
+    return null;
+  }
+}
@@ -0,0 +1,27 @@
+import type { GameWeather, PlayerInjury, Projection, ScoreBreakdown } from "../../../shared/scoring";
+
+export type Player = {
+  id: string;
+  name: string;
+  position: string;
+  team: string;
+  opponent: string;
+  /** Whether the player's team hosts this week's game; unset when no line or schedule said. */
+  homeAway?: "home" | "away" | null;
+  /** Null when no line is posted; scoring then treats the team as the league-average baseline. */
+  impliedTotal?: number | null;
+  /** False when no sportsbook had a line for the game when the player was saved. */
+  hasLine?: boolean;
+  overUnder?: number | null;
+  spread?: number | null;
+  weather?: GameWeather | null;
+  defRank?: number;
+  stats: Record<string, number>;
+  score?: number;
+  breakdown?: ScoreBreakdown;
+  /** Weekly fantasy points derived from the breakdown in the active profile's format. */
+  projection?: Projection;
+  injury?: PlayerInjury | null;
+  /** Sleeper player id, used for player-specific news. */
+  sleeperId?: string | null;
+};
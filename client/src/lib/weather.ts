@@ -0,0 +1,65 @@
+import { normalizeWeather, type GameWeather } from "../../../shared/scoring";
+import { stadiumLocations } from "./stadium";
+import { weekQueryParams, type WeekSelection } from "./weeks";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_SERVER_URL || "http://localhost:5000";
+
+// Used only when the proxy is down: no scoreboard, so it samples the team's own stadium right now.
+async function fetchDirectWeather(team: string): Promise<GameWeather | null> {
+  const loc = stadiumLocations[team];
+  if (!loc) return null;
+  if (loc.roof === "dome") {
+    return { roof: "dome", kickoff: null, tempF: null, rainChance: null, windMph: null, gustMph: null };
+  }
+
+  try {
+    const params = new URLSearchParams({
+      latitude: String(loc.lat),
+      longitude: String(loc.lon),
+      hourly: "temperature_2m,precipitation_probability,wind_speed_10m,wind_gusts_10m",
+      temperature_unit: "fahrenheit",
+      wind_speed_unit: "mph",
+      timezone: "GMT",
+      forecast_hours: "1"
+    });
+    const res = await fetch(`https://api.open-meteo.com/v1/forecast?${params.toString()}`);
+    if (!res.ok) throw new Error("OpenMeteo unavailable");
+    const json = await res.json();
+    const sample = (key: string): number | null => {
+      const value = json?.hourly?.[key]?.[0];
+      return typeof value === "number" ? Math.round(value) : null;
+    };
+    const tempF = sample("temperature_2m");
+    const rainChance = sample("precipitation_probability");
+    if (tempF === null || rainChance === null) return null;
+    return {
+      roof: loc.roof,
+      kickoff: null,
+      tempF,
+      rainChance,
+      windMph: sample("wind_speed_10m"),
+      gustMph: sample("wind_gusts_10m")
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** Kickoff-hour forecast for the team's game in the given week, sampled at the host stadium. */
+export async function fetchWeather(team: string, week: WeekSelection = null): Promise<GameWeather | null> {
+  const normalized = team.toUpperCase();
+  if (!stadiumLocations[normalized]) return null;
+
+  try {
+    const weekParams = weekQueryParams(week);
+    const res = await fetch(`${API_BASE_URL}/api/weather?team=${normalized}${weekParams ? `&${weekParams}` : ""}`);
+    if (res.ok) {
+      const json = await res.json();
+      // A null forecast is a real answer (neutral-site game), not a proxy failure.
+      return normalizeWeather(json?.weather);
+    }
+    throw new Error("Proxy weather unavailable");
+  } catch {
+    return fetchDirectWeather(normalized);
+  }
+}
@@ -0,0 +1,44 @@
+const API_BASE_URL = process.env.NEXT_PUBLIC_SERVER_URL || "http://localhost:5000";
+
+export type NflWeek = {
+  season: number;
+  seasonType: number;
+  week: number;
+  label: string;
+  startDate: string | null;
+  endDate: string | null;
+};
+
+/** A specific week to query, or null for whatever week the server considers current. */
+export type WeekSelection = { seasonType: number; week: number } | null;
+
+export type NflCalendar = {
+  weeks: NflWeek[];
+  current: NflWeek | null;
+};
+
+export function weekQueryParams(selection: WeekSelection): string {
+  if (!selection) return "";
+  return `week=${selection.week}&seasontype=${selection.seasonType}`;
+}
+
+export function weekSelectionKey(selection: WeekSelection): string {
+  return selection ? `${selection.seasonType}:${selection.week}` : "current";
+}
+
+export function parseWeekSelectionKey(key: string): WeekSelection {
+  const [seasonType, week] = key.split(":").map(Number);
+  return Number.isInteger(seasonType) && Number.isInteger(week) ? { seasonType, week } : null;
+}
+
+export async function fetchNflCalendar(): Promise<NflCalendar | null> {
+  try {
+    const res = await fetch(`${API_BASE_URL}/api/nfl-weeks`);
+    if (!res.ok) return null;
+    const json = await res.json();
+    return { weeks: (json?.data || []) as NflWeek[], current: (json?.current || null) as NflWeek | null };
+  } catch (err) {
+    console.error("NFL calendar fetch error:", err);
+    return null;
+  }
+}
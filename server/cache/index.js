@@ -0,0 +1,145 @@
+import { promises as fsPromises } from "fs";
+import { fileURLToPath } from "url";
+import { dirname, join } from "path";
+
+export const CACHE_DIR = join(dirname(fileURLToPath(import.meta.url)), "..", ".cache");
+const PERSIST_DELAY_MS = 2000;
+
+/** Freshness of a cache entry as reported in API responses. */
+export function cacheAge(entry, now = Date.now()) {
+  if (!entry) return null;
+  return {
+    fetchedAt: new Date(entry.fetchedAt).toISOString(),
+    ageSeconds: Math.max(Math.round((now - entry.fetchedAt) / 1000), 0),
+    stale: entry.expiresAt <= now
+  };
+}
+
+/**
+ * Keyed cache for upstream data. An entry is fresh for `ttlMs`, then served stale for up to
+ * `staleMs` more while a single background refresh runs; past that, lookups wait on the refresh
+ * (and fall back to the old entry if it fails). Concurrent loads of one key share a request.
+ * Entries past their stale window are pruned whenever another entry is set. With `persist`, entries are written to `.cache/<name>.json` and read back after a restart.
+ */
+export function createCache({ name, ttlMs, staleMs = 0, persist = false }) {
+  const entries = new Map();
+  const inFlight = new Map();
+  const filePath = join(CACHE_DIR, `${name}.json`);
+  let restored = null;
+  let writeTimer = null;
+
+  // `persist` may be a function so the choice can follow settings (fixture modes) read per request.
+  const persisting = () => (typeof persist === "function" ? persist() : Boolean(persist));
+
+  function restore() {
+    if (!restored) {
+      restored = persisting()
+        ? fsPromises
+            .readFile(filePath, "utf8")
+            .then((text) => {
+              Object.entries(JSON.parse(text)).forEach(([key, entry]) => {
+                if (!entries.has(key)) entries.set(key, entry);
+              });
+            })
+            .catch((err) => {
+              if (err.code !== "ENOENT") console.warn(`Cache ${name} unreadable, starting empty:`, err.message);
+            })
+        : Promise.resolve();
+    }
+    return restored;
+  }
+
+  const servable = (entry, now) => entry.expiresAt + (entry.staleMs ?? staleMs) > now;
+
+  // Entries too old to be served even stale are dropped, so caches keyed by something that keeps
+  // changing (weather by team and kickoff hour) don't grow for as long as the process runs.
+  function prune(now) {
+    entries.forEach((entry, key) => {
+      if (!servable(entry, now)) entries.delete(key);
+    });
+  }
+
+  async function writeToDisk() {
+    writeTimer = null;
+    const now = Date.now();
+    prune(now);
+    const kept = [...entries];
+    try {
+      await fsPromises.mkdir(CACHE_DIR, { recursive: true });
+      const tempPath = `${filePath}.tmp`;
+      await fsPromises.writeFile(tempPath, JSON.stringify(Object.fromEntries(kept)));
+      await fsPromises.rename(tempPath, filePath);
+    } catch (err) {
+      console.warn(`Cache ${name} could not be saved:`, err.message);
+    }
+  }
+
+  function schedulePersist() {
+    if (writeTimer || !persisting()) return;
+    // Batches bursts of writes (a slate's worth of forecasts) into one file write.
+    writeTimer = setTimeout(writeToDisk, PERSIST_DELAY_MS);
+    writeTimer.unref();
+  }
+
+  function set(key, value, options = {}) {
+    const now = Date.now();
+    const entry = { value, fetchedAt: now, expiresAt: now + (options.ttlMs ?? ttlMs) };
+    if (options.staleMs !== undefined) entry.staleMs = options.staleMs;
+    prune(now);
+    entries.set(key, entry);
+    schedulePersist();
+    return entry;
+  }
+
+  function refresh(key, loader, options) {
+    if (!inFlight.has(key)) {
+      const pending = Promise.resolve()
+        .then(loader)
+        .then((value) => set(key, value, options))
+        .finally(() => inFlight.delete(key));
+      inFlight.set(key, pending);
+    }
+    return inFlight.get(key);
+  }
+
+  /** Resolves to the entry (`{ value, fetchedAt, expiresAt }`) for `key`, loading it when needed. */
+  async function get(key, loader, options = {}) {
+    await restore();
+    const entry = entries.get(key);
+    const now = Date.now();
+    if (entry && entry.expiresAt > now) return entry;
+    const staleFor = options.staleMs ?? entry?.staleMs ?? staleMs;
+    if (entry && entry.expiresAt + staleFor > now) {
+      refresh(key, loader, options).catch((err) =>
+        console.warn(`Background refresh of ${name} cache (${key}) failed:`, err.message)
+      );
+      return entry;
+    }
+    try {
+      return await refresh(key, loader, options);
+    } catch (err) {
+      if (!entry) throw err;
+      console.warn(`Serving expired ${name} cache (${key}) after a failed refresh:`, err.message);
+      return entry;
+    }
+  }
+
+  return {
+    name,
+    get,
+    set,
+    /** Resolves to the entry for `key` without loading anything, or null. Waits for the disk restore like `get`. */
+    async peek(key) {
+      await restore();
+      return entries.get(key) || null;
+    },
+    /** Resolves to the most recently fetched entry under any key, or null when the cache is empty. */
+    async newest() {
+      await restore();
+      return [...entries.values()].reduce(
+        (latest, entry) => (!latest || entry.fetchedAt > latest.fetchedAt ? entry : latest),
+        null
+      );
+    }
+  };
+}
@@ -0,0 +1,135 @@
+import { normalizeWeather } from '../../shared/scoring/index.js';
+import { pool } from './index.js';
+
+const PLAYER_COLUMNS = `id, name, position, team, opponent, implied_total, over_under, spread, weather, def_rank, stats, score,
+  injury, sleeper_id, home_away, has_line, created_at, updated_at`;
+
+const toPlayer = (row) => ({
+  id: row.id,
+  name: row.name,
+  position: row.position,
+  team: row.team,
+  opponent: row.opponent,
+  impliedTotal: row.implied_total ?? undefined,
+  overUnder: row.over_under,
+  spread: row.spread,
+  weather: normalizeWeather(row.weather) ?? undefined,
+  defRank: row.def_rank ?? undefined,
+  stats: row.stats || {},
+  score: row.score ?? undefined,
+  injury: row.injury ?? null,
+  sleeperId: row.sleeper_id ?? null,
+  homeAway: row.home_away ?? null,
+  hasLine: row.has_line ?? undefined,
+  updatedAt: row.updated_at
+});
+
+const numberOrNull = (value) => {
+  if (value === null || value === undefined || value === '') return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+export function validatePlayer(player) {
+  if (!player || typeof player !== 'object') return 'Player payload is required.';
+  const missing = ['id', 'name', 'position', 'team', 'opponent'].filter(
+    (key) => typeof player[key] !== 'string' || !player[key].trim()
+  );
+  if (missing.length) return `Missing required player fields: ${missing.join(', ')}.`;
+  if (player.stats !== undefined && (typeof player.stats !== 'object' || Array.isArray(player.stats))) {
+    return 'Player stats must be an object keyed by stat name.';
+  }
+  return null;
+}
+
+export async function ensureBoard(boardId) {
+  await pool.query(
+    `INSERT INTO boards (id, name) VALUES ($1, $1)
+     ON CONFLICT (id) DO NOTHING`,
+    [boardId]
+  );
+}
+
+async function touchBoard(boardId) {
+  await pool.query('UPDATE boards SET updated_at = NOW() WHERE id = $1', [boardId]);
+}
+
+export async function listBoardPlayers(boardId) {
+  const { rows } = await pool.query(
+    `SELECT ${PLAYER_COLUMNS} FROM board_players WHERE board_id = $1 ORDER BY created_at`,
+    [boardId]
+  );
+  return rows.map(toPlayer);
+}
+
+export async function getBoardPlayer(boardId, playerId) {
+  const { rows } = await pool.query(`SELECT ${PLAYER_COLUMNS} FROM board_players WHERE board_id = $1 AND id = $2`, [
+    boardId,
+    playerId
+  ]);
+  return rows.length ? toPlayer(rows[0]) : null;
+}
+
+export async function upsertBoardPlayer(boardId, player) {
+  await ensureBoard(boardId);
+  const { rows } = await pool.query(
+    `INSERT INTO board_players
+       (board_id, id, name, position, team, opponent, implied_total, over_under, spread, weather, def_rank, stats, score,
+        injury, sleeper_id, home_away, has_line)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+     ON CONFLICT (board_id, id) DO UPDATE SET
+       name = EXCLUDED.name,
+       position = EXCLUDED.position,
+       team = EXCLUDED.team,
+       opponent = EXCLUDED.opponent,
+       implied_total = EXCLUDED.implied_total,
+       over_under = EXCLUDED.over_under,
+       spread = EXCLUDED.spread,
+       weather = EXCLUDED.weather,
+       def_rank = EXCLUDED.def_rank,
+       stats = EXCLUDED.stats,
+       score = EXCLUDED.score,
+       injury = EXCLUDED.injury,
+       sleeper_id = EXCLUDED.sleeper_id,
+       home_away = EXCLUDED.home_away,
+       has_line = EXCLUDED.has_line,
+       updated_at = NOW()
+     RETURNING ${PLAYER_COLUMNS}`,
+    [
+      boardId,
+      player.id.trim(),
+      player.name.trim(),
+      player.position.trim().toUpperCase(),
+      player.team.trim().toUpperCase(),
+      player.opponent.trim().toUpperCase(),
+      numberOrNull(player.impliedTotal),
+      numberOrNull(player.overUnder),
+      numberOrNull(player.spread),
+      player.weather ? JSON.stringify(normalizeWeather(player.weather)) : null,
+      numberOrNull(player.defRank),
+      JSON.stringify(player.stats || {}),
+      numberOrNull(player.score),
+      player.injury && typeof player.injury === 'object' ? JSON.stringify(player.injury) : null,
+      typeof player.sleeperId === 'string' && player.sleeperId.trim() ? player.sleeperId.trim() : null,
+      player.homeAway === 'home' || player.homeAway === 'away' ? player.homeAway : null,
+      typeof player.hasLine === 'boolean' ? player.hasLine : null
+    ]
+  );
+  await touchBoard(boardId);
+  return toPlayer(rows[0]);
+}
+
+export async function deleteBoardPlayer(boardId, playerId) {
+  const { rowCount } = await pool.query('DELETE FROM board_players WHERE board_id = $1 AND id = $2', [
+    boardId,
+    playerId
+  ]);
+  if (rowCount) await touchBoard(boardId);
+  return rowCount > 0;
+}
+
+export async function clearBoardPlayers(boardId) {
+  const { rowCount } = await pool.query('DELETE FROM board_players WHERE board_id = $1', [boardId]);
+  if (rowCount) await touchBoard(boardId);
+  return rowCount;
+}
@@ -0,0 +1,52 @@
+import { promises as fsPromises } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { pool } from './index.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const MIGRATIONS_DIR = join(__dirname, 'migrations');
+
+export async function runMigrations() {
+  await pool.query(
+    `CREATE TABLE IF NOT EXISTS schema_migrations (
+      name TEXT PRIMARY KEY,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )`
+  );
+  const { rows } = await pool.query('SELECT name FROM schema_migrations');
+  const applied = new Set(rows.map((row) => row.name));
+  const files = (await fsPromises.readdir(MIGRATIONS_DIR)).filter((file) => file.endsWith('.sql')).sort();
+
+  const ran = [];
+  for (const file of files) {
+    if (applied.has(file)) continue;
+    const sql = await fsPromises.readFile(join(MIGRATIONS_DIR, file), 'utf8');
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(sql);
+      await client.query('INSERT INTO schema_migrations (name) VALUES ($1)', [file]);
+      await client.query('COMMIT');
+      ran.push(file);
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw new Error(`Migration ${file} failed: ${err.message}`);
+    } finally {
+      client.release();
+    }
+  }
+  return ran;
+}
+
+if (process.argv[1] === __filename) {
+  runMigrations()
+    .then((ran) => {
+      console.log(ran.length ? `Applied migrations: ${ran.join(', ')}` : 'Database schema is up to date.');
+      return pool.end();
+    })
+    .catch((err) => {
+      console.error('❌ Migration failed:', err.message);
+      process.exit(1);
+    });
+}
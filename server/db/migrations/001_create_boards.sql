@@ -0,0 +1,27 @@
+CREATE TABLE IF NOT EXISTS boards (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS board_players (
+  board_id TEXT NOT NULL REFERENCES boards(id) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  position TEXT NOT NULL,
+  team TEXT NOT NULL,
+  opponent TEXT NOT NULL,
+  implied_total DOUBLE PRECISION,
+  over_under DOUBLE PRECISION,
+  spread DOUBLE PRECISION,
+  weather TEXT,
+  def_rank DOUBLE PRECISION,
+  stats JSONB NOT NULL DEFAULT '{}'::jsonb,
+  score DOUBLE PRECISION,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (board_id, id)
+);
+
+CREATE INDEX IF NOT EXISTS board_players_board_id_idx ON board_players (board_id);
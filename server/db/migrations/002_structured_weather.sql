@@ -0,0 +1,4 @@
+-- Weather moves from a "72F / 10% rain" summary to structured forecast fields.
+-- Existing summaries are kept as JSON strings and parsed when read.
+ALTER TABLE board_players
+  ALTER COLUMN weather TYPE JSONB USING to_jsonb(weather);
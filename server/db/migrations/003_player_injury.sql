@@ -0,0 +1,3 @@
+-- Sleeper injury designation, depth-chart slot, and out teammates captured when the player was saved.
+ALTER TABLE board_players
+  ADD COLUMN IF NOT EXISTS injury JSONB;
@@ -0,0 +1,3 @@
+-- Sleeper player id, resolved when the player is saved, for player-specific news lookups.
+ALTER TABLE board_players
+  ADD COLUMN IF NOT EXISTS sleeper_id TEXT;
@@ -0,0 +1,21 @@
+-- One row per board player per NFL week: the latest score, context, and stats saved during that week.
+-- Rows outlive the board player so removed waiver adds keep their history.
+CREATE TABLE IF NOT EXISTS board_player_snapshots (
+  board_id TEXT NOT NULL REFERENCES boards(id) ON DELETE CASCADE,
+  player_id TEXT NOT NULL,
+  season INTEGER NOT NULL,
+  season_type INTEGER NOT NULL,
+  week INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  position TEXT NOT NULL,
+  team TEXT NOT NULL,
+  opponent TEXT,
+  score DOUBLE PRECISION,
+  implied_total DOUBLE PRECISION,
+  def_rank DOUBLE PRECISION,
+  stats JSONB NOT NULL DEFAULT '{}'::jsonb,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (board_id, player_id, season, season_type, week)
+);
+
+CREATE INDEX IF NOT EXISTS board_player_snapshots_board_id_idx ON board_player_snapshots (board_id);
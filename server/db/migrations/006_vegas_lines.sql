@@ -0,0 +1,19 @@
+-- Vegas line history: one row per game each time its spread, total, or implied totals change.
+-- Spreads are stored from the home side; the away side is the negation.
+CREATE TABLE IF NOT EXISTS vegas_lines (
+  id BIGSERIAL PRIMARY KEY,
+  game_id TEXT NOT NULL,
+  season INTEGER NOT NULL,
+  season_type INTEGER NOT NULL,
+  week INTEGER NOT NULL,
+  home_team TEXT NOT NULL,
+  away_team TEXT NOT NULL,
+  kickoff TIMESTAMPTZ,
+  home_spread DOUBLE PRECISION,
+  over_under DOUBLE PRECISION,
+  home_implied DOUBLE PRECISION,
+  away_implied DOUBLE PRECISION,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS vegas_lines_week_idx ON vegas_lines (season, season_type, week, game_id, recorded_at);
@@ -0,0 +1,3 @@
+-- Whether the player's team hosted the game when the player was saved ('home' or 'away'), for export labels.
+ALTER TABLE board_players
+  ADD COLUMN IF NOT EXISTS home_away TEXT;
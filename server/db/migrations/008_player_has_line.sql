@@ -0,0 +1,3 @@
+-- False when no sportsbook had a line for the player's game when they were saved; implied_total is then NULL.
+ALTER TABLE board_players
+  ADD COLUMN IF NOT EXISTS has_line BOOLEAN;
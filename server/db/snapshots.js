@@ -0,0 +1,77 @@
+import { pool } from './index.js';
+
+const SNAPSHOT_COLUMNS = `player_id, season, season_type, week, name, position, team, opponent, score, implied_total,
+  def_rank, stats, recorded_at`;
+
+const toSnapshot = (row) => ({
+  playerId: row.player_id,
+  season: row.season,
+  seasonType: row.season_type,
+  week: row.week,
+  name: row.name,
+  position: row.position,
+  team: row.team,
+  opponent: row.opponent,
+  score: row.score,
+  impliedTotal: row.implied_total,
+  defRank: row.def_rank,
+  stats: row.stats || {},
+  recordedAt: row.recorded_at
+});
+
+const numberOrNull = (value) => {
+  if (value === null || value === undefined || value === '') return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+/**
+ * Saves each player's current numbers as their snapshot for `week`. A week keeps only its
+ * latest save, so repeated edits during the week overwrite rather than pile up.
+ */
+export async function recordSnapshots(boardId, players, week) {
+  for (const player of players) {
+    await pool.query(
+      `INSERT INTO board_player_snapshots
+         (board_id, player_id, season, season_type, week, name, position, team, opponent, score, implied_total,
+          def_rank, stats)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+       ON CONFLICT (board_id, player_id, season, season_type, week) DO UPDATE SET
+         name = EXCLUDED.name,
+         position = EXCLUDED.position,
+         team = EXCLUDED.team,
+         opponent = EXCLUDED.opponent,
+         score = EXCLUDED.score,
+         implied_total = EXCLUDED.implied_total,
+         def_rank = EXCLUDED.def_rank,
+         stats = EXCLUDED.stats,
+         recorded_at = NOW()`,
+      [
+        boardId,
+        player.id,
+        week.season,
+        week.seasonType,
+        week.week,
+        player.name,
+        player.position,
+        player.team,
+        player.opponent || null,
+        numberOrNull(player.score),
+        numberOrNull(player.impliedTotal),
+        numberOrNull(player.defRank),
+        JSON.stringify(player.stats || {})
+      ]
+    );
+  }
+  return players.length;
+}
+
+export async function listSnapshots(boardId, { playerId = null, season = null } = {}) {
+  const { rows } = await pool.query(
+    `SELECT ${SNAPSHOT_COLUMNS} FROM board_player_snapshots
+     WHERE board_id = $1 AND ($2::text IS NULL OR player_id = $2) AND ($3::int IS NULL OR season = $3)
+     ORDER BY season, season_type, week, name`,
+    [boardId, playerId, season]
+  );
+  return rows.map(toSnapshot);
+}
@@ -0,0 +1,86 @@
+import { pool } from './index.js';
+
+const LINE_FIELDS = ['home_spread', 'over_under', 'home_implied', 'away_implied'];
+
+const toLine = (row) => ({
+  gameId: row.game_id,
+  homeTeam: row.home_team,
+  awayTeam: row.away_team,
+  kickoff: row.kickoff,
+  homeSpread: row.home_spread,
+  overUnder: row.over_under,
+  homeImplied: row.home_implied,
+  awayImplied: row.away_implied,
+  recordedAt: row.recorded_at
+});
+
+const lineValues = (game) => ({
+  home_spread: game.home.spread,
+  over_under: game.overUnder,
+  home_implied: game.home.implied,
+  away_implied: game.away.implied
+});
+
+/**
+ * Appends the current line for each game of `week`. Scoreboards refresh every few minutes, so a
+ * game only gets a new row when one of its numbers differs from its latest saved line. The table
+ * lock makes overlapping refreshes wait their turn, so both can't compare against the same latest
+ * row and insert the same change twice. Plain reads are not blocked.
+ */
+export async function recordVegasLines(week, games) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('LOCK TABLE vegas_lines IN SHARE ROW EXCLUSIVE MODE');
+    const { rows: latest } = await client.query(
+      `SELECT DISTINCT ON (game_id) game_id, ${LINE_FIELDS.join(', ')} FROM vegas_lines
+       WHERE season = $1 AND season_type = $2 AND week = $3
+       ORDER BY game_id, recorded_at DESC`,
+      [week.season, week.seasonType, week.week]
+    );
+    const latestByGame = new Map(latest.map((row) => [row.game_id, row]));
+
+    let recorded = 0;
+    for (const game of games) {
+      const values = lineValues(game);
+      const previous = latestByGame.get(game.id);
+      if (previous && LINE_FIELDS.every((field) => previous[field] === values[field])) continue;
+      await client.query(
+        `INSERT INTO vegas_lines
+           (game_id, season, season_type, week, home_team, away_team, kickoff, home_spread, over_under, home_implied,
+            away_implied)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+        [
+          game.id,
+          week.season,
+          week.seasonType,
+          week.week,
+          game.home.abbr,
+          game.away.abbr,
+          game.kickoff || null,
+          ...LINE_FIELDS.map((field) => values[field])
+        ]
+      );
+      recorded += 1;
+    }
+    await client.query('COMMIT');
+    return recorded;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/** Every saved line for `week`, oldest first, optionally only the game `team` plays in. */
+export async function listVegasLines(week, { team = null } = {}) {
+  const { rows } = await pool.query(
+    `SELECT game_id, home_team, away_team, kickoff, ${LINE_FIELDS.join(', ')}, recorded_at FROM vegas_lines
+     WHERE season = $1 AND season_type = $2 AND week = $3
+       AND ($4::text IS NULL OR home_team = $4 OR away_team = $4)
+     ORDER BY game_id, recorded_at`,
+    [week.season, week.seasonType, week.week, team]
+  );
+  return rows.map(toLine);
+}
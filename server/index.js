@@ -6,6 +6,42 @@ import { fileURLToPath } from "url";
 import { dirname, join, resolve, isAbsolute } from "path";
 import { createRequire } from "module";
 import { buildDefenseRanksFromRaw } from "./logic/defense-ranks.js";
+import { rankStreamers, STREAMER_POSITIONS } from "./logic/streamers.js";
+import {
+  buildRemainingSchedules,
+  normalizeSchedule,
+  REGULAR_SEASON_WEEKS,
+  scheduleFromScoreboards
+} from "./logic/schedule.js";
+import { buildLeagueSnapshot, indexOwnership, isValidLeagueId } from "./logic/sleeperLeague.js";
+import { findOpportunity, indexOutPlayers, pickInjuryFields } from "./logic/injuries.js";
+import { buildNewsMatcher } from "./logic/newsMatching.js";
+import { buildTeamLineHistory } from "./logic/lineMovement.js";
+import { buildConsensus, feedLinesFor, normalizeOddsFeed, parseEspnOdds } from "./logic/odds.js";
+import { providers } from "./providers/index.js";
+import { getSourceHealth, setSourceFallback, summarizeSource, trackSource } from "./providers/health.js";
+import { cacheAge, createCache } from "./cache/index.js";
+import {
+  BUILT_IN_PROFILES,
+  DEFAULT_PROFILE,
+  explainScore,
+  findProfile,
+  normalizePosition,
+  normalizeProfile,
+  projectPoints
+} from "../shared/scoring/index.js";
+import { connectDB } from "./db/index.js";
+import { runMigrations } from "./db/migrate.js";
+import {
+  listBoardPlayers,
+  getBoardPlayer,
+  upsertBoardPlayer,
+  deleteBoardPlayer,
+  clearBoardPlayers,
+  validatePlayer
+} from "./db/boards.js";
+import { listSnapshots, recordSnapshots } from "./db/snapshots.js";
+import { listVegasLines, recordVegasLines } from "./db/vegasLines.js";
 
 const app = express();
 app.use(cors());
@@ -18,167 +54,391 @@ const require = createRequire(import.meta.url);
 const stadiumLocations = require("./data/stadiums.json");
 let defenseRanks = require("./data/defense-rankings.json");
 const sampleNews = require("./data/news-sample.json");
+const playerNicknames = require("./data/player-nicknames.json");
 const defenseFilePath = join(__dirname, "data", "defense-rankings.json");
+const scheduleFilePath = join(__dirname, "data", "schedule.json");
+const oddsFilePath = join(__dirname, "data", "odds.json");
 
 const WEATHER_TTL_MS = 30 * 60 * 1000;
 const SCOREBOARD_TTL_MS = 5 * 60 * 1000;
 const SLEEPER_TTL_MS = 12 * 60 * 60 * 1000;
 const NEWS_TTL_MS = 10 * 60 * 1000;
 const DEFENSE_REFRESH_MS = 6 * 60 * 60 * 1000;
+const SCHEDULE_TTL_MS = 6 * 60 * 60 * 1000;
+const LEAGUE_TTL_MS = 10 * 60 * 1000;
+// How long past its TTL an entry is still served while a background refresh runs.
+const WEATHER_STALE_MS = 3 * 60 * 60 * 1000;
+const SCOREBOARD_STALE_MS = 6 * 60 * 60 * 1000;
+const SLEEPER_STALE_MS = 7 * 24 * 60 * 60 * 1000;
+const NEWS_STALE_MS = 6 * 60 * 60 * 1000;
+const SCHEDULE_STALE_MS = 24 * 60 * 60 * 1000;
+const LEAGUE_STALE_MS = 60 * 60 * 1000;
+const TRENDING_POOL_SIZE = 50;
 
+const MAX_SCORE_BATCH = 500;
 const FANTASY_POSITIONS = new Set(["QB", "RB", "WR", "TE", "K", "PK", "DST", "DEF"]);
 
-const weatherCache = new Map();
-const scoreboardCache = { data: null, expiresAt: 0, dateKey: null, contexts: {}, matchupNews: [] };
-const sleeperCache = { data: null, map: null, expiresAt: 0 };
-const newsCache = { data: null, expiresAt: 0 };
+// Caches persist to disk only while their provider is live, so recording and replaying always
+// go through the fixtures.
+const liveOnly = (provider) => () => provider.mode === "live";
+const weatherCache = createCache({
+  name: "weather",
+  ttlMs: WEATHER_TTL_MS,
+  staleMs: WEATHER_STALE_MS,
+  persist: liveOnly(providers.openMeteo)
+});
+const scoreboardCache = createCache({
+  name: "scoreboard",
+  ttlMs: SCOREBOARD_TTL_MS,
+  staleMs: SCOREBOARD_STALE_MS,
+  persist: liveOnly(providers.espn)
+});
+const calendarCache = createCache({
+  name: "calendar",
+  ttlMs: SCOREBOARD_TTL_MS,
+  staleMs: SCOREBOARD_STALE_MS,
+  persist: liveOnly(providers.espn)
+});
+const sleeperCache = createCache({
+  name: "sleeper-players",
+  ttlMs: SLEEPER_TTL_MS,
+  staleMs: SLEEPER_STALE_MS,
+  persist: liveOnly(providers.sleeper)
+});
+const newsCache = createCache({ name: "news", ttlMs: NEWS_TTL_MS, staleMs: NEWS_STALE_MS, persist: liveOnly(providers.espn) });
+const scheduleCache = createCache({
+  name: "schedule",
+  ttlMs: SCHEDULE_TTL_MS,
+  staleMs: SCHEDULE_STALE_MS,
+  persist: liveOnly(providers.espn)
+});
+const leagueCache = createCache({
+  name: "sleeper-leagues",
+  ttlMs: LEAGUE_TTL_MS,
+  staleMs: LEAGUE_STALE_MS,
+  persist: liveOnly(providers.sleeper)
+});
+// Lookup tables built from the cached Sleeper list, rebuilt whenever a refresh lands.
+let sleeperIndex = { entry: null, data: [], map: {}, outIndex: new Map(), matchNews: () => [] };
+// When the served defense ranks were fetched (or the bundled file last written).
+let defenseRanksUpdatedAt = null;
+
+// Upstream calls are tracked per data source so /api/status can report each one's health.
+const fetchFrom = (sourceId, provider, path) => trackSource(sourceId, () => provider.fetchJSON(path));
 let lastDefenseRefresh = 0;
+let databaseReady = false;
 
-const ESPN_SCOREBOARD_URL = "https://site.api.espn.com/apis/site/v2/sports/football/nfl/scoreboard";
-const SLEEPER_PLAYERS_URL = "https://api.sleeper.app/v1/players/nfl";
-const FANTASYLIFE_NEWS_URL = "https://api.fantasylife.com/v2/news";
 let defenseSourceWarningLogged = false;
 
-async function fetchJSON(url) {
-  const resp = await fetch(url);
-  if (!resp.ok) {
-    throw new Error(`Request failed for ${url} (${resp.status})`);
+const SEASON_TYPES = { PRESEASON: 1, REGULAR: 2, POSTSEASON: 3 };
+
+const weekKeyFor = (week) => `${week.season}-${week.seasonType}-${week.week}`;
+
+// ESPN's calendar lists every week of the season with Thursday-to-Tuesday date windows.
+function parseWeekCalendar(scoreboard) {
+  const season = Number(scoreboard?.season?.year);
+  const weeks = [];
+  scoreboard?.leagues?.[0]?.calendar?.forEach((period) => {
+    const seasonType = Number(period?.value);
+    if (!Object.values(SEASON_TYPES).includes(seasonType)) return;
+    period.entries?.forEach((entry) => {
+      const week = Number(entry?.value);
+      if (!Number.isInteger(week)) return;
+      weeks.push({
+        season,
+        seasonType,
+        week,
+        label: seasonType === SEASON_TYPES.REGULAR ? entry.label : `${period.label}: ${entry.label}`,
+        startDate: entry.startDate || null,
+        endDate: entry.endDate || null
+      });
+    });
+  });
+  return weeks;
+}
+
+// `useClock: false` trusts the scoreboard's own week, for replayed fixtures recorded on another date.
+function resolveCurrentWeek(weeks, scoreboard, { useClock = true } = {}) {
+  const now = Date.now();
+  const upcoming = useClock && weeks.find((week) => week.endDate && new Date(week.endDate).getTime() > now);
+  if (upcoming) return upcoming;
+  const week = Number(scoreboard?.week?.number) || 1;
+  const seasonType = Number(scoreboard?.season?.type) || SEASON_TYPES.REGULAR;
+  return (
+    weeks.find((entry) => entry.seasonType === seasonType && entry.week === week) || {
+      season: Number(scoreboard?.season?.year) || new Date().getUTCFullYear(),
+      seasonType,
+      week,
+      label: `Week ${week}`,
+      startDate: null,
+      endDate: null
+    }
+  );
+}
+
+async function fetchWeekCalendar() {
+  // The unparameterized scoreboard carries the season calendar and ESPN's own idea of the current week.
+  const data = await fetchFrom("espnScoreboard", providers.espn, "/scoreboard");
+  const weeks = parseWeekCalendar(data);
+  const current = resolveCurrentWeek(weeks, data, { useClock: providers.espn.mode !== "replay" });
+  if (Number(data?.week?.number) === current.week && Number(data?.season?.type) === current.seasonType) {
+    scoreboardCache.set(weekKeyFor(current), await buildScoreboardEntry(current, data));
   }
-  return resp.json();
+  return { weeks, current };
 }
 
-const formatDateParam = (date) =>
-  `${date.getUTCFullYear()}${String(date.getUTCMonth() + 1).padStart(2, "0")}${String(date.getUTCDate()).padStart(
-    2,
-    "0"
-  )}`;
+async function loadWeekCalendar() {
+  const entry = await calendarCache.get("calendar", fetchWeekCalendar);
+  return { ...entry.value, cache: cacheAge(entry) };
+}
+
+/** Parses `?week=&seasontype=` query params; a missing week or `week=current` means the current week. */
+function parseWeekQuery(query) {
+  const rawWeek = String(query.week ?? "").trim().toLowerCase();
+  if (!rawWeek || rawWeek === "current") return { target: null };
+  const week = Number(rawWeek);
+  const seasonType = query.seasontype === undefined || query.seasontype === "" ? null : Number(query.seasontype);
+  if (!Number.isInteger(week) || week < 1) {
+    return { error: "week must be a positive integer or 'current'" };
+  }
+  if (seasonType !== null && !Object.values(SEASON_TYPES).includes(seasonType)) {
+    return { error: "seasontype must be 1 (preseason), 2 (regular season), or 3 (postseason)" };
+  }
+  return { target: { week, seasonType } };
+}
+
+async function resolveScoreboardWeek(target) {
+  const calendar = await loadWeekCalendar();
+  if (!target) return calendar.current;
+  const seasonType = target.seasonType ?? calendar.current.seasonType;
+  if (!calendar.weeks.length) {
+    return { ...calendar.current, seasonType, week: target.week, label: `Week ${target.week}` };
+  }
+  return calendar.weeks.find((week) => week.seasonType === seasonType && week.week === target.week) || null;
+}
 
-function getUpcomingScoreboardDate() {
-  const now = new Date();
-  const utcDate = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
-  let delta = (7 - utcDate.getUTCDay()) % 7;
-  if (delta === 0 && now.getUTCHours() >= 8) {
-    delta = 7;
+// Shared by the week-aware routes: answers 400/404 itself and returns null when the week is invalid.
+async function getWeekForRequest(req, res) {
+  const { target, error } = parseWeekQuery(req.query);
+  if (error) {
+    res.status(400).json({ error });
+    return null;
   }
-  utcDate.setUTCDate(utcDate.getUTCDate() + delta);
-  return formatDateParam(utcDate);
+  const week = await resolveScoreboardWeek(target);
+  if (!week) {
+    res.status(404).json({ error: "That week is not on this season's NFL calendar." });
+    return null;
+  }
+  return week;
+}
+
+async function getScoreboardForRequest(req, res) {
+  const week = await getWeekForRequest(req, res);
+  return week ? getScoreboard(week) : null;
+}
+
+async function getCurrentContexts() {
+  const current = (await calendarCache.peek("calendar"))?.value.current;
+  return (current && (await scoreboardCache.peek(weekKeyFor(current)))?.value.contexts) || {};
 }
 
+/** The current week's team contexts, loading the scoreboard first when none are cached. */
 async function ensureScoreboardContexts() {
-  if (scoreboardCache.contexts && Object.keys(scoreboardCache.contexts).length) return;
+  const contexts = await getCurrentContexts();
+  if (Object.keys(contexts).length) return contexts;
   try {
     await getScoreboard();
   } catch (err) {
     console.warn("Scoreboard fetch failed:", err.message);
   }
+  return getCurrentContexts();
 }
 
-const getTeamOpponent = (abbr) => scoreboardCache.contexts?.[abbr]?.opponent || null;
-
-function parseVegasForCompetition(comp) {
-  if (!comp?.competitors?.length) return null;
-  const odds = comp.odds?.[0] || {};
-  const parsedTotal = Number(odds.overUnder);
-  const total = Number.isFinite(parsedTotal) ? parsedTotal : 45;
-  const detailTokens = (odds.details || "").split(" ").filter(Boolean);
-  const favoredToken = detailTokens[0]?.toUpperCase();
-  const detailSpreadToken = detailTokens[1] ?? detailTokens[detailTokens.length - 1];
-  let detailSpread = parseFloat(detailSpreadToken);
-  if (!Number.isFinite(detailSpread) && typeof odds.spread === "number") {
-    detailSpread = Number(odds.spread);
-  }
-  if (!Number.isFinite(detailSpread)) {
-    detailSpread = 0;
-  }
-  const absSpread = Math.abs(detailSpread);
-
-  const home = comp.competitors.find((c) => c.homeAway === "home");
-  const away = comp.competitors.find((c) => c.homeAway === "away");
-  if (!home || !away) return null;
-  const homeAbbr = home.team?.abbreviation?.toUpperCase();
-  const awayAbbr = away.team?.abbreviation?.toUpperCase();
-
-  let homeSpread = 0;
-  let awaySpread = 0;
-  if (favoredToken && absSpread) {
-    if (favoredToken === homeAbbr) {
-      homeSpread = -absSpread;
-      awaySpread = absSpread;
-    } else if (favoredToken === awayAbbr) {
-      homeSpread = absSpread;
-      awaySpread = -absSpread;
-    } else {
-      homeSpread = -absSpread;
-      awaySpread = absSpread;
+async function loadScheduleFile() {
+  try {
+    return normalizeSchedule(await fsPromises.readFile(scheduleFilePath, "utf8"));
+  } catch (err) {
+    if (err.code !== "ENOENT") console.warn("Schedule file unreadable:", err.message);
+    return null;
+  }
+}
+
+// Lines imported with `npm run odds:update`; they join ESPN's books when a scoreboard is built.
+async function loadOddsFile() {
+  try {
+    return normalizeOddsFeed(await fsPromises.readFile(oddsFilePath, "utf8"));
+  } catch (err) {
+    if (err.code !== "ENOENT") console.warn("Odds file unreadable:", err.message);
+    return null;
+  }
+}
+
+/**
+ * Every team's remaining regular-season schedule. An imported `data/schedule.json` for the
+ * current season wins; otherwise the schedule is assembled from ESPN's week scoreboards.
+ */
+async function getSeasonSchedule() {
+  const entry = await scheduleCache.get("remaining", buildSeasonSchedule);
+  return { ...entry.value, cache: cacheAge(entry) };
+}
+
+async function buildSeasonSchedule() {
+  const { weeks, current } = await loadWeekCalendar();
+  const fromWeek =
+    current.seasonType === SEASON_TYPES.REGULAR
+      ? current.week
+      : current.seasonType === SEASON_TYPES.PRESEASON
+      ? 1
+      : REGULAR_SEASON_WEEKS + 1;
+
+  let source = "file";
+  let games;
+  const missingWeeks = [];
+  const imported = await loadScheduleFile();
+  if (imported?.games.length && (!imported.season || imported.season === current.season)) {
+    games = imported.games;
+  } else {
+    source = "espn";
+    const scoreboards = [];
+    // One request per remaining week, sequentially so ESPN isn't hit with a burst.
+    for (let week = fromWeek; week <= REGULAR_SEASON_WEEKS; week += 1) {
+      const target = weeks.find((entry) => entry.seasonType === SEASON_TYPES.REGULAR && entry.week === week) || {
+        season: current.season,
+        seasonType: SEASON_TYPES.REGULAR,
+        week,
+        label: `Week ${week}`
+      };
+      try {
+        scoreboards.push(await getScoreboard(target, { sourceId: "espnSchedule" }));
+      } catch (err) {
+        // A week that can't be loaded (never recorded in replay, or a one-off failure) is left out
+        // rather than shown as a bye for every team.
+        console.warn(`Schedule skipped ${target.label}:`, err.message);
+        missingWeeks.push(week);
+      }
     }
+    if (missingWeeks.length && !scoreboards.length) {
+      throw new Error("None of the remaining week scoreboards could be loaded");
+    }
+    games = scheduleFromScoreboards(scoreboards);
   }
 
-  const impliedHome = total / 2 - homeSpread / 2;
-  const impliedAway = total / 2 + homeSpread / 2;
+  return {
+    season: current.season,
+    fromWeek,
+    source,
+    missingWeeks,
+    teams: buildRemainingSchedules(games, fromWeek, { skipWeeks: missingWeeks })
+  };
+}
+
+const getTeamOpponent = (contexts, abbr) => contexts[abbr]?.opponent || null;
+
+const oneDecimal = (value) => (Number.isFinite(value) ? Number(value.toFixed(1)) : null);
 
-  const kickoff = comp.date || null;
-  const venue = comp.venue?.fullName || comp.venue?.name || null;
-  const broadcast = comp.broadcasts?.[0]?.names?.[0] || null;
+/**
+ * One game of a scoreboard with its consensus line. Every book ESPN lists counts, as does any
+ * matching line in the imported odds feed. Without a posted total the game is marked `hasLine:
+ * false` and its total and implied points stay null rather than being guessed.
+ */
+function parseGame(event, week, oddsFeed) {
+  const comp = event?.competitions?.[0];
+  const home = comp?.competitors?.find((c) => c.homeAway === "home");
+  const away = comp?.competitors?.find((c) => c.homeAway === "away");
+  const homeAbbr = home?.team?.abbreviation?.toUpperCase();
+  const awayAbbr = away?.team?.abbreviation?.toUpperCase();
+  if (!homeAbbr || !awayAbbr) return null;
+
+  const consensus = buildConsensus([
+    ...parseEspnOdds(comp, homeAbbr, awayAbbr),
+    ...feedLinesFor(oddsFeed, week, homeAbbr, awayAbbr)
+  ]);
+  const { total, homeSpread } = consensus;
+  const hasLine = total !== null;
+  // A game with a total but no spread is treated as a pick'em for the implied split.
+  const split = homeSpread ?? 0;
 
   return {
-    total,
-    spread: Number(detailSpread.toFixed(1)),
-    kickoff,
-    venue,
-    broadcast,
+    id: event.id || `${awayAbbr}@${homeAbbr}`,
+    name: event.shortName || `${awayAbbr} @ ${homeAbbr}`,
+    status: event.status?.type?.shortDetail || null,
+    kickoff: comp.date || event.date || null,
+    venue: comp.venue?.fullName || comp.venue?.name || null,
+    broadcast: comp.broadcasts?.[0]?.names?.[0] || null,
+    neutralSite: Boolean(comp.neutralSite),
+    hasLine,
+    overUnder: total,
+    spread: homeSpread,
+    bookCount: consensus.books.length,
+    books: consensus.books,
     home: {
       abbr: homeAbbr,
-      implied: Number.isFinite(impliedHome) ? Number(impliedHome.toFixed(1)) : null,
-      spread: Number(homeSpread.toFixed(1))
+      implied: hasLine ? oneDecimal(total / 2 - split / 2) : null,
+      spread: homeSpread === null ? null : oneDecimal(homeSpread)
     },
     away: {
       abbr: awayAbbr,
-      implied: Number.isFinite(impliedAway) ? Number(impliedAway.toFixed(1)) : null,
-      spread: Number(awaySpread.toFixed(1))
+      implied: hasLine ? oneDecimal(total / 2 + split / 2) : null,
+      spread: homeSpread === null ? null : oneDecimal(-homeSpread)
     }
   };
 }
 
-function buildTeamContexts(scoreboard) {
+function buildSlateGames(scoreboard, week, oddsFeed) {
+  return (scoreboard?.events || [])
+    .map((event) => parseGame(event, week, oddsFeed))
+    .filter(Boolean)
+    .sort((a, b) => new Date(a.kickoff || 0) - new Date(b.kickoff || 0));
+}
+
+function buildTeamContexts(games) {
   const contexts = {};
-  scoreboard?.events?.forEach((event) => {
-    const comp = event?.competitions?.[0];
-    const vegas = parseVegasForCompetition(comp);
-    if (!vegas || !vegas.home?.abbr || !vegas.away?.abbr) return;
-    const { total, kickoff, venue, broadcast } = vegas;
-    const pushContext = (team, opponent) => {
+  games.forEach((game) => {
+    const { kickoff, venue, broadcast, neutralSite, hasLine, overUnder, bookCount, books } = game;
+    const roof = neutralSite ? null : stadiumLocations[game.home.abbr]?.roof || null;
+    const pushContext = (team, opponent, homeAway) => {
       contexts[team.abbr] = {
         team: team.abbr,
         opponent: opponent.abbr,
+        homeAway,
+        hasLine,
         impliedTotal: team.implied,
         opponentImpliedTotal: opponent.implied,
-        overUnder: Number(total.toFixed(1)),
+        overUnder,
         spread: team.spread,
         opponentSpread: opponent.spread,
-        kickoff: kickoff || event.date || null,
+        bookCount,
+        books,
+        kickoff,
         venue,
-        broadcast
+        broadcast,
+        neutralSite,
+        roof
       };
     };
-    pushContext(vegas.home, vegas.away);
-    pushContext(vegas.away, vegas.home);
+    pushContext(game.home, game.away, "home");
+    pushContext(game.away, game.home, "away");
   });
   return contexts;
 }
 
 function buildMatchupNews(contexts) {
-  return Object.values(contexts).map((ctx) => ({
-    id: `${ctx.team}-${ctx.opponent}-${ctx.kickoff || Date.now()}`,
-    team: ctx.team,
-    headline: `${ctx.team} vs ${ctx.opponent} preview`,
-    analysis: `Kickoff ${ctx.kickoff ? new Date(ctx.kickoff).toLocaleString() : "TBD"} ┬╖ O/U ${ctx.overUnder} ┬╖ Spread ${
-      ctx.team
-    } ${ctx.spread > 0 ? `+${ctx.spread}` : ctx.spread} ┬╖ Implied totals ${ctx.team} ${
-      ctx.impliedTotal ?? "N/A"
-    } vs ${ctx.opponent} ${ctx.opponentImpliedTotal ?? "N/A"}.`,
-    createdAt: ctx.kickoff,
-    source: "Matchup"
-  }));
+  return Object.values(contexts).map((ctx) => {
+    const kickoff = `Kickoff ${ctx.kickoff ? new Date(ctx.kickoff).toLocaleString() : "TBD"}`;
+    const spread = ctx.spread === null ? "N/A" : ctx.spread > 0 ? `+${ctx.spread}` : ctx.spread;
+    return {
+      id: `${ctx.team}-${ctx.opponent}-${ctx.kickoff || Date.now()}`,
+      team: ctx.team,
+      headline: `${ctx.team} vs ${ctx.opponent} preview`,
+      analysis: ctx.hasLine
+        ? `${kickoff} ┬╖ O/U ${ctx.overUnder} ┬╖ Spread ${ctx.team} ${spread} ┬╖ Implied totals ${ctx.team} ${
+            ctx.impliedTotal ?? "N/A"
+          } vs ${ctx.opponent} ${ctx.opponentImpliedTotal ?? "N/A"}.`
+        : `${kickoff} · No Vegas line posted yet.`,
+      createdAt: ctx.kickoff,
+      source: "Matchup"
+    };
+  });
 }
 
 const HTTP_SOURCE_REGEX = /^https?:\/\//i;
@@ -206,6 +466,7 @@ async function refreshDefenseRanks(force = false) {
 
   const defenseSource = (process.env.DEFENSE_RANKINGS_SOURCE || "").trim();
   if (!defenseSource) {
+    setSourceFallback("defense", "bundled defense-rankings.json (no source configured)");
     if (!defenseSourceWarningLogged) {
       console.warn(
         "Defense rank refresh skipped: no DEFENSE_RANKINGS_SOURCE configured. " +
@@ -217,103 +478,133 @@ async function refreshDefenseRanks(force = false) {
   }
 
   try {
-    const raw = await loadDefenseRankSource(defenseSource);
-    if (!raw) {
-      throw new Error("Defense rank source returned no data");
-    }
-    const ranks = buildDefenseRanksFromRaw(raw);
-    if (!ranks.length) throw new Error("No defense ranks returned");
+    const ranks = await trackSource("defense", async () => {
+      const raw = await loadDefenseRankSource(defenseSource);
+      if (!raw) {
+        throw new Error("Defense rank source returned no data");
+      }
+      const built = buildDefenseRanksFromRaw(raw);
+      if (!built.length) throw new Error("No defense ranks returned");
+      return built;
+    });
     defenseRanks = ranks;
     lastDefenseRefresh = Date.now();
+    defenseRanksUpdatedAt = lastDefenseRefresh;
+    setSourceFallback("defense", null);
     await fsPromises.writeFile(defenseFilePath, JSON.stringify(ranks, null, 2));
     console.log(`Defense ranks refreshed (${ranks.length} teams).`);
     return true;
   } catch (err) {
     console.warn("Defense rank refresh failed:", err.message);
+    setSourceFallback("defense", "last saved defense-rankings.json");
     return false;
   }
 }
 
-async function lookupWeather(team) {
-  const cached = weatherCache.get(team);
-  if (cached && cached.expiresAt > Date.now()) {
-    return cached.value;
-  }
+const toForecastHour = (date) => `${date.toISOString().slice(0, 13)}:00`;
+const roundOrNull = (value) => (typeof value === "number" ? Math.round(value) : null);
 
+/**
+ * Forecast at a team's home stadium for the kickoff hour (the current hour when kickoff is unknown),
+ * with the age of the cached forecast. Domes skip the forecast request since weather never reaches the field.
+ */
+async function lookupWeather(team, kickoff = null) {
   const loc = stadiumLocations[team];
   if (!loc) {
     throw new Error("Unknown team");
   }
+  const kickoffDate = kickoff ? new Date(kickoff) : new Date();
+  if (Number.isNaN(kickoffDate.getTime())) {
+    throw new Error(`Invalid kickoff time ${kickoff}`);
+  }
+  const base = { roof: loc.roof || "open", kickoff: kickoff || null };
+  if (loc.roof === "dome") {
+    return { weather: { ...base, tempF: null, rainChance: null, windMph: null, gustMph: null }, cache: null };
+  }
+
+  const hour = toForecastHour(kickoffDate);
+  const entry = await weatherCache.get(`${team}:${hour}`, () => fetchForecast(loc, base, hour));
+  return { weather: entry.value, cache: cacheAge(entry) };
+}
 
+async function fetchForecast(loc, base, hour) {
   const params = new URLSearchParams({
     latitude: String(loc.lat),
     longitude: String(loc.lon),
-    hourly: "temperature_2m,precipitation_probability",
-    forecast_days: "1",
-    timezone: "auto"
+    hourly: "temperature_2m,precipitation_probability,wind_speed_10m,wind_gusts_10m",
+    temperature_unit: "fahrenheit",
+    wind_speed_unit: "mph",
+    timezone: "GMT",
+    start_hour: hour,
+    end_hour: hour
   });
 
-  const data = await fetchJSON(`https://api.open-meteo.com/v1/forecast?${params.toString()}`);
-  const temps = data?.hourly?.temperature_2m;
-  const precip = data?.hourly?.precipitation_probability;
-  const tempC =
-    Array.isArray(temps) && typeof temps[12] === "number"
-      ? temps[12]
-      : Array.isArray(temps) && typeof temps[0] === "number"
-      ? temps[0]
-      : null;
-  const rain =
-    Array.isArray(precip) && typeof precip[12] === "number"
-      ? precip[12]
-      : Array.isArray(precip) && typeof precip[0] === "number"
-      ? precip[0]
-      : null;
-
-  if (tempC === null || rain === null) {
+  const data = await fetchFrom("openMeteo", providers.openMeteo, `/forecast?${params.toString()}`);
+  const sample = (key) => (typeof data?.hourly?.[key]?.[0] === "number" ? data.hourly[key][0] : null);
+  const tempF = sample("temperature_2m");
+  const rainChance = sample("precipitation_probability");
+
+  if (tempF === null || rainChance === null) {
     throw new Error("Incomplete weather data");
   }
 
-  const tempF = Math.round((tempC * 9) / 5 + 32);
-  const summary = `${tempF}F / ${Math.round(rain)}% rain`;
-  weatherCache.set(team, { value: summary, expiresAt: Date.now() + WEATHER_TTL_MS });
-  return summary;
+  return {
+    ...base,
+    tempF: Math.round(tempF),
+    rainChance: Math.round(rainChance),
+    windMph: roundOrNull(sample("wind_speed_10m")),
+    gustMph: roundOrNull(sample("wind_gusts_10m"))
+  };
 }
 
-async function getScoreboard() {
-  const targetDate = getUpcomingScoreboardDate();
-  if (scoreboardCache.data && scoreboardCache.expiresAt > Date.now() && scoreboardCache.dateKey === targetDate) {
-    return scoreboardCache.data;
-  }
-  const data = await fetchJSON(`${ESPN_SCOREBOARD_URL}?dates=${targetDate}`);
-  scoreboardCache.data = data;
-  scoreboardCache.expiresAt = Date.now() + SCOREBOARD_TTL_MS;
-  scoreboardCache.dateKey = targetDate;
-  scoreboardCache.contexts = buildTeamContexts(data);
-  scoreboardCache.matchupNews = buildMatchupNews(scoreboardCache.contexts);
-  return data;
+// Games are played at the home team's stadium; neutral-site games have no stadium on file to sample.
+async function lookupGameWeather(team, context) {
+  const host = context?.homeAway === "away" ? context.opponent : team;
+  if (context?.neutralSite || !stadiumLocations[host]) return { weather: null, cache: null };
+  return lookupWeather(host, context?.kickoff || null);
 }
 
-function computeVegasContext(teamAbbrev, scoreboard) {
-  const normalized = teamAbbrev.toUpperCase();
-  if (scoreboardCache.contexts[normalized]) {
-    return scoreboardCache.contexts[normalized];
-  }
-  const contexts = buildTeamContexts(scoreboard);
-  if (Object.keys(contexts).length) {
-    scoreboardCache.contexts = contexts;
-    scoreboardCache.matchupNews = buildMatchupNews(contexts);
-  }
-  return contexts[normalized] || null;
+// Every fresh scoreboard appends its lines to the Vegas history. Like board snapshots, history is a
+// side effect: without a database, or if the insert fails, the scoreboard is still served.
+// Games without a posted total are left out until a book lists one.
+function recordLineHistory(week, games) {
+  if (!databaseReady) return;
+  recordVegasLines(
+    week,
+    games.filter((game) => game.hasLine)
+  ).catch((err) => console.warn(`Vegas line history skipped for ${week.label}:`, err.message));
 }
 
-async function getSleeperPlayers() {
-  if (sleeperCache.data && sleeperCache.expiresAt > Date.now()) {
-    return sleeperCache;
-  }
+async function buildScoreboardEntry(week, data) {
+  const games = buildSlateGames(data, week, await loadOddsFile());
+  const contexts = buildTeamContexts(games);
+  recordLineHistory(week, games);
+  return { week, data, games, contexts, matchupNews: buildMatchupNews(contexts) };
+}
 
-  const raw = await fetchJSON(SLEEPER_PLAYERS_URL);
+/**
+ * Loads every game of an NFL week (Thursday through Monday, international games included)
+ * through ESPN's week/seasontype parameters. Defaults to the current week. `sourceId` is the
+ * health entry the fetch reports to, so the schedule builder's sweep of later weeks doesn't
+ * mark the live scoreboard stale when one of those weeks fails.
+ */
+async function getScoreboard(week = null, { sourceId = "espnScoreboard" } = {}) {
+  const target = week || (await loadWeekCalendar()).current;
+  const entry = await scoreboardCache.get(weekKeyFor(target), async () => {
+    const params = new URLSearchParams({
+      seasontype: String(target.seasonType),
+      week: String(target.week),
+      dates: String(target.season)
+    });
+    return buildScoreboardEntry(target, await fetchFrom(sourceId, providers.espn, `/scoreboard?${params}`));
+  });
+  return { ...entry.value, cache: cacheAge(entry) };
+}
+
+// Sleeper's full player dump runs to several megabytes, so only the fantasy-relevant fields are cached.
+async function fetchSleeperPlayers() {
+  const raw = await fetchFrom("sleeper", providers.sleeper, "/players/nfl");
   const list = [];
-  const map = {};
 
   for (const [id, player] of Object.entries(raw)) {
     const fullName = player.full_name || `${player.first_name || ""} ${player.last_name || ""}`.trim();
@@ -327,20 +618,41 @@ async function getSleeperPlayers() {
       team,
       position,
       searchKey: fullName.toLowerCase(),
-      lastNameKey: (player.last_name || "").toLowerCase()
+      lastNameKey: (player.last_name || "").toLowerCase(),
+      ...pickInjuryFields(player)
     };
     list.push(trimmed);
-    map[id] = trimmed;
   }
+  return list;
+}
 
-  sleeperCache.data = list;
-  sleeperCache.map = map;
-  sleeperCache.expiresAt = Date.now() + SLEEPER_TTL_MS;
-  return sleeperCache;
+async function getSleeperPlayers() {
+  const entry = await sleeperCache.get("players", fetchSleeperPlayers);
+  if (sleeperIndex.entry !== entry) {
+    const list = entry.value;
+    sleeperIndex = {
+      entry,
+      data: list,
+      map: Object.fromEntries(list.map((player) => [player.id, player])),
+      outIndex: indexOutPlayers(list),
+      matchNews: buildNewsMatcher(list, playerNicknames)
+    };
+  }
+  return { ...sleeperIndex, cache: cacheAge(entry) };
 }
 
+// Injury report fields plus any out teammates this player could be filling in for.
+const injuryDetails = (player) => ({
+  injuryStatus: player.injuryStatus,
+  injuryBodyPart: player.injuryBodyPart,
+  status: player.status,
+  depthChartPosition: player.depthChartPosition,
+  depthChartOrder: player.depthChartOrder,
+  opportunity: findOpportunity(player, sleeperIndex.outIndex)
+});
+
 async function fetchEspnNews() {
-  const data = await fetchJSON("https://site.api.espn.com/apis/site/v2/sports/football/nfl/news");
+  const data = await fetchFrom("espnNews", providers.espn, "/news");
   const articles = data?.articles || [];
   const flattened = [];
   for (const article of articles) {
@@ -381,16 +693,11 @@ async function fetchEspnNews() {
   return flattened;
 }
 
-async function getFantasyNews() {
-  if (newsCache.data && newsCache.expiresAt > Date.now()) {
-    return newsCache.data;
-  }
-
+async function fetchNewsSources() {
   try {
     const espnNews = await fetchEspnNews();
     if (espnNews.length) {
-      newsCache.data = espnNews;
-      newsCache.expiresAt = Date.now() + NEWS_TTL_MS;
+      setSourceFallback("espnNews", null);
       return espnNews;
     }
     throw new Error("No ESPN news available");
@@ -399,9 +706,10 @@ async function getFantasyNews() {
   }
 
   try {
-    const resp = await fetchJSON(FANTASYLIFE_NEWS_URL);
+    const resp = await fetchFrom("fantasyLife", providers.fantasyLife, "/news");
     const items = resp?.data || resp?.news || [];
-    const sanitized = items.map((item) => ({
+    setSourceFallback("espnNews", "FantasyLife news");
+    return items.map((item) => ({
       id: item.id || item.newsId,
       headline: item.title || item.headline || "",
       analysis: item.body || item.analysis || "",
@@ -410,18 +718,81 @@ async function getFantasyNews() {
       createdAt: item.created || item.updated || item.timestamp || null,
       source: item.source || "FantasyLife"
     }));
-    newsCache.data = sanitized;
-    newsCache.expiresAt = Date.now() + NEWS_TTL_MS;
-    return sanitized;
   } catch (err) {
     console.warn("FantasyLife news fetch failed:", err.message);
   }
 
-  newsCache.data = sampleNews;
-  newsCache.expiresAt = Date.now() + NEWS_TTL_MS;
+  setSourceFallback("espnNews", "bundled sample news");
   return sampleNews;
 }
 
+// Tags each item with the Sleeper players it mentions; without the player list, items stay untagged.
+async function tagNewsPlayers(items) {
+  try {
+    const { matchNews } = await getSleeperPlayers();
+    return items.map((item) => {
+      const players = matchNews(item);
+      return {
+        ...item,
+        player: item.player || players[0]?.fullName || null,
+        playerIds: players.map((player) => player.id)
+      };
+    });
+  } catch (err) {
+    console.warn("News player matching unavailable:", err.message);
+    return items.map((item) => ({ ...item, playerIds: item.playerIds || [] }));
+  }
+}
+
+async function getFantasyNews() {
+  const entry = await newsCache.get("news", async () => tagNewsPlayers(await fetchNewsSources()));
+  return { items: entry.value, cache: cacheAge(entry) };
+}
+
+async function fetchSleeperLeague(leagueId) {
+  const [league, rosters, users] = await Promise.all([
+    fetchFrom("sleeper", providers.sleeper, `/league/${leagueId}`),
+    fetchFrom("sleeper", providers.sleeper, `/league/${leagueId}/rosters`),
+    fetchFrom("sleeper", providers.sleeper, `/league/${leagueId}/users`)
+  ]);
+  if (!league) {
+    const err = new Error(`Sleeper league ${leagueId} not found`);
+    err.status = 404;
+    throw err;
+  }
+  const { map } = await getSleeperPlayers();
+  return buildLeagueSnapshot({ league, rosters, users }, map);
+}
+
+async function getSleeperLeague(leagueId) {
+  const entry = await leagueCache.get(leagueId, () => fetchSleeperLeague(leagueId));
+  return { snapshot: entry.value, owners: indexOwnership(entry.value), cache: cacheAge(entry) };
+}
+
+// Resolves `?leagueId=` for the player routes. Answers 400 (bad id) or 404 (unknown league) itself
+// and returns false; returns null when no league was requested.
+async function getLeagueOwnersForRequest(req, res) {
+  const leagueId = String(req.query.leagueId || "").trim();
+  if (!leagueId) return null;
+  if (!isValidLeagueId(leagueId)) {
+    res.status(400).json({ error: "leagueId must be a Sleeper league id" });
+    return false;
+  }
+  try {
+    return (await getSleeperLeague(leagueId)).owners;
+  } catch (err) {
+    if (err.status !== 404) throw err;
+    res.status(404).json({ error: err.message });
+    return false;
+  }
+}
+
+const withOwnership = (entry, playerId, owners) => {
+  if (!owners) return entry;
+  const rostered = owners.get(playerId) || null;
+  return { ...entry, rostered, available: !rostered };
+};
+
 function rankPlayerMatches(players, query, limit = 5) {
   const needle = query.toLowerCase();
   const parts = needle.split(/\s+/).filter(Boolean);
@@ -450,9 +821,21 @@ app.get("/", (req, res) => {
   res.send("Fantasy Waiver Tool server is running.");
 });
 
+// Defense ranks have no cache entry; their age runs from the last refresh (or the bundled file's save).
+const defenseCacheAge = () =>
+  defenseRanksUpdatedAt
+    ? cacheAge({ fetchedAt: defenseRanksUpdatedAt, expiresAt: defenseRanksUpdatedAt + DEFENSE_REFRESH_MS })
+    : null;
+
 app.get("/api/defense-rankings", async (req, res) => {
   await refreshDefenseRanks();
-  res.json({ data: defenseRanks, source: "cache" });
+  const { fallback } = getSourceHealth("defense");
+  res.json({
+    data: defenseRanks,
+    source: fallback ? "file" : "remote",
+    fallback,
+    cache: { defense: defenseCacheAge() }
+  });
 });
 
 app.get("/api/weather", async (req, res) => {
@@ -464,15 +847,84 @@ app.get("/api/weather", async (req, res) => {
     return res.status(404).json({ error: "Unknown team abbreviation" });
   }
 
+  let context = null;
+  try {
+    const scoreboard = await getScoreboardForRequest(req, res);
+    if (!scoreboard) return;
+    context = scoreboard.contexts[team] || null;
+  } catch (err) {
+    console.warn(`Scoreboard unavailable for ${team} weather, sampling its home stadium now:`, err.message);
+  }
+
   try {
-    const weather = await lookupWeather(team);
-    res.json({ team, weather });
+    const { weather, cache } = await lookupGameWeather(team, context);
+    res.json({ team, weather, cache: { weather: cache } });
   } catch (err) {
     console.error(`Error fetching weather for ${team}:`, err);
     res.status(500).json({ error: "Failed to fetch weather" });
   }
 });
 
+app.get("/api/nfl-weeks", async (req, res) => {
+  try {
+    const calendar = await loadWeekCalendar();
+    res.json({ data: calendar.weeks, current: calendar.current, cache: { calendar: calendar.cache } });
+  } catch (err) {
+    console.error("NFL calendar fetch failed:", err);
+    res.status(500).json({ error: "Failed to load the NFL calendar" });
+  }
+});
+
+app.get("/api/schedule", async (req, res) => {
+  const team = String(req.query.team || "").toUpperCase();
+  try {
+    const { cache, ...schedule } = await getSeasonSchedule();
+    if (!team) {
+      return res.json({ data: schedule, cache: { schedule: cache } });
+    }
+    if (!schedule.teams[team]) {
+      return res.status(404).json({ error: "No remaining games found for that team." });
+    }
+    res.json({ data: { ...schedule, teams: { [team]: schedule.teams[team] } }, cache: { schedule: cache } });
+  } catch (err) {
+    console.error("Schedule fetch failed:", err);
+    res.status(500).json({ error: "Failed to load the season schedule" });
+  }
+});
+
+app.get("/api/slate", async (req, res) => {
+  try {
+    const scoreboard = await getScoreboardForRequest(req, res);
+    if (!scoreboard) return;
+    const { games } = scoreboard;
+    // Weather is sampled at the home stadium for kickoff and served from the shared weather cache.
+    const forecasts = await Promise.all(
+      games.map(async (game) => {
+        try {
+          return await lookupGameWeather(game.home.abbr, {
+            homeAway: "home",
+            kickoff: game.kickoff,
+            neutralSite: game.neutralSite
+          });
+        } catch (err) {
+          console.warn(`Slate weather unavailable for ${game.home.abbr}:`, err.message);
+          return { weather: null, cache: null };
+        }
+      })
+    );
+    const data = games.map((game, index) => ({ ...game, weather: forecasts[index].weather }));
+    // The slate is only as fresh as its oldest forecast.
+    const oldestForecast = forecasts
+      .map((forecast) => forecast.cache)
+      .filter(Boolean)
+      .reduce((oldest, cache) => (!oldest || cache.ageSeconds > oldest.ageSeconds ? cache : oldest), null);
+    res.json({ data, week: scoreboard.week, cache: { scoreboard: scoreboard.cache, weather: oldestForecast } });
+  } catch (err) {
+    console.error("Slate fetch failed:", err);
+    res.status(500).json({ error: "Failed to load the slate" });
+  }
+});
+
 app.get("/api/vegas-context", async (req, res) => {
   const team = String(req.query.team || "").toUpperCase();
   if (!team) {
@@ -480,18 +932,67 @@ app.get("/api/vegas-context", async (req, res) => {
   }
 
   try {
-    const scoreboard = await getScoreboard();
-    const context = computeVegasContext(team, scoreboard);
+    const scoreboard = await getScoreboardForRequest(req, res);
+    if (!scoreboard) return;
+    const context = scoreboard.contexts[team];
     if (!context) {
-      return res.status(404).json({ error: "No upcoming game found for that team." });
+      return res.status(404).json({ error: `No game found for that team in ${scoreboard.week.label}.` });
     }
-    res.json(context);
+    res.json({
+      ...context,
+      week: scoreboard.week.week,
+      seasonType: scoreboard.week.seasonType,
+      cache: { scoreboard: scoreboard.cache }
+    });
   } catch (err) {
     console.error(`Error fetching vegas context for ${team}:`, err);
     res.status(500).json({ error: "Failed to fetch vegas context" });
   }
 });
 
+// Line movement for the week's games: one series per team with its opening and current line and any
+// sharp moves. Without `team`, every team with a recorded line is returned.
+app.get("/api/vegas-history", async (req, res) => {
+  const team = req.query.team ? String(req.query.team).toUpperCase() : null;
+  if (!databaseReady) {
+    return res.status(503).json({ error: "Line history needs PostgreSQL. Check PG_URI and restart the server." });
+  }
+
+  try {
+    const week = await getWeekForRequest(req, res);
+    if (!week) return;
+    const history = buildTeamLineHistory(await listVegasLines(week, { team }));
+    if (team) {
+      if (!history[team]) {
+        return res.status(404).json({ error: `No lines recorded for ${team} in ${week.label}.` });
+      }
+      return res.json({ data: history[team], week });
+    }
+    res.json({ data: Object.values(history), week });
+  } catch (err) {
+    console.error(`Vegas history failed${team ? ` for ${team}` : ""}:`, err);
+    res.status(500).json({ error: "Failed to load line history" });
+  }
+});
+
+app.get("/api/streamers", async (req, res) => {
+  const position = normalizePosition(req.query.position || "DST");
+  if (!STREAMER_POSITIONS.includes(position)) {
+    return res.status(400).json({ error: `position must be one of ${STREAMER_POSITIONS.join(", ")}` });
+  }
+
+  try {
+    const scoreboard = await getScoreboardForRequest(req, res);
+    if (!scoreboard) return;
+    await refreshDefenseRanks();
+    const data = rankStreamers(position, scoreboard.contexts, defenseRanks);
+    res.json({ position, week: scoreboard.week, data, cache: { scoreboard: scoreboard.cache } });
+  } catch (err) {
+    console.error(`Streamer ranking failed for ${position}:`, err);
+    res.status(500).json({ error: "Failed to rank streamers" });
+  }
+});
+
 app.get("/api/player-lookup", async (req, res) => {
   const name = String(req.query.name || "").trim();
   if (!name) {
@@ -499,22 +1000,30 @@ app.get("/api/player-lookup", async (req, res) => {
   }
 
   try {
-    const { data: players } = await getSleeperPlayers();
+    const owners = await getLeagueOwnersForRequest(req, res);
+    if (owners === false) return;
+    const { data: players, cache } = await getSleeperPlayers();
     const bestMatch = pickBestPlayerMatch(players, name);
     if (!bestMatch) {
-      return res.json({ match: null });
+      return res.json({ match: null, cache: { players: cache } });
     }
-    await ensureScoreboardContexts();
-    const opponent = getTeamOpponent(bestMatch.team);
+    const contexts = await ensureScoreboardContexts();
+    const opponent = getTeamOpponent(contexts, bestMatch.team);
 
     res.json({
-      match: {
-        id: bestMatch.id,
-        fullName: bestMatch.fullName,
-        team: bestMatch.team,
-        position: bestMatch.position,
-        opponent: opponent || null
-      }
+      match: withOwnership(
+        {
+          id: bestMatch.id,
+          fullName: bestMatch.fullName,
+          team: bestMatch.team,
+          position: bestMatch.position,
+          opponent: opponent || null,
+          ...injuryDetails(bestMatch)
+        },
+        bestMatch.id,
+        owners
+      ),
+      cache: { players: cache }
     });
   } catch (err) {
     console.error(`Player lookup failed for ${name}:`, err);
@@ -525,25 +1034,40 @@ app.get("/api/player-lookup", async (req, res) => {
 app.get("/api/player-search", async (req, res) => {
   const query = String(req.query.query || "").trim();
   const limit = Math.min(Number(req.query.limit) || 6, 12);
+  const freeAgentsOnly = req.query.freeAgentsOnly === "true";
   if (!query) {
     return res.json({ data: [] });
   }
 
   try {
-    const { data: players } = await getSleeperPlayers();
-    const matches = rankPlayerMatches(players, query, limit).map((entry) => ({
-      id: entry.player.id,
-      fullName: entry.player.fullName,
-      team: entry.player.team,
-      position: entry.player.position,
-      score: entry.score
-    }));
-    await ensureScoreboardContexts();
+    const owners = await getLeagueOwnersForRequest(req, res);
+    if (owners === false) return;
+    const { data: players, cache } = await getSleeperPlayers();
+    // Rank a deeper pool when rostered players are about to be filtered out.
+    const poolSize = owners && freeAgentsOnly ? limit * 4 : limit;
+    const matches = rankPlayerMatches(players, query, poolSize)
+      .map((entry) =>
+        withOwnership(
+          {
+            id: entry.player.id,
+            fullName: entry.player.fullName,
+            team: entry.player.team,
+            position: entry.player.position,
+            score: entry.score,
+            ...injuryDetails(entry.player)
+          },
+          entry.player.id,
+          owners
+        )
+      )
+      .filter((match) => !(freeAgentsOnly && match.rostered))
+      .slice(0, limit);
+    const contexts = await ensureScoreboardContexts();
     const withOpponents = matches.map((match) => ({
       ...match,
-      opponent: getTeamOpponent(match.team) || null
+      opponent: getTeamOpponent(contexts, match.team)
     }));
-    res.json({ data: withOpponents });
+    res.json({ data: withOpponents, cache: { players: cache } });
   } catch (err) {
     console.error("Player search failed:", err);
     res.status(500).json({ error: "Player search failed" });
@@ -554,55 +1078,116 @@ app.get("/api/sleeper/trending", async (req, res) => {
   const type = req.query.type === "drops" ? "drops" : "adds";
   const limit = Math.min(Number(req.query.limit) || 20, 50);
   const lookback = Math.min(Number(req.query.hours) || 24, 72);
+  const freeAgentsOnly = req.query.freeAgentsOnly === "true";
 
   try {
-    const url = `https://api.sleeper.app/v1/players/nfl/trending/${type}?lookback_hours=${lookback}&limit=${limit}`;
-    const trending = await fetchJSON(url);
-    const { map } = await getSleeperPlayers();
-    await ensureScoreboardContexts();
+    const owners = await getLeagueOwnersForRequest(req, res);
+    if (owners === false) return;
+    // Sleeper's trending types are singular. A fixed pool keeps filtered lists full and recorded fixtures reusable.
+    const sleeperType = type === "drops" ? "drop" : "add";
+    const trending = await fetchFrom(
+      "sleeper",
+      providers.sleeper,
+      `/players/nfl/trending/${sleeperType}?lookback_hours=${lookback}&limit=${TRENDING_POOL_SIZE}`
+    );
+    const { map, cache } = await getSleeperPlayers();
+    const contexts = await ensureScoreboardContexts();
     const enriched = trending
       .map((entry) => {
         const base = map[entry.player_id];
         if (!base) return null;
-        return {
-          playerId: entry.player_id,
-          count: entry.count,
-          type,
-          ...base,
-          opponent: getTeamOpponent(base.team) || null
-        };
+        return withOwnership(
+          {
+            playerId: entry.player_id,
+            count: entry.count,
+            type,
+            ...base,
+            ...injuryDetails(base),
+            opponent: getTeamOpponent(contexts, base.team)
+          },
+          entry.player_id,
+          owners
+        );
       })
-      .filter((entry) => entry?.fullName && FANTASY_POSITIONS.has(entry.position));
-    res.json({ data: enriched });
+      .filter((entry) => entry?.fullName && FANTASY_POSITIONS.has(entry.position))
+      .filter((entry) => !(freeAgentsOnly && entry.rostered))
+      .slice(0, limit);
+    res.json({ data: enriched, cache: { players: cache } });
   } catch (err) {
     console.error("Sleeper trending fetch failed:", err);
     res.status(500).json({ error: "Failed to fetch trending players" });
   }
 });
 
+app.get("/api/sleeper/league/:leagueId", async (req, res) => {
+  const { leagueId } = req.params;
+  if (!isValidLeagueId(leagueId)) {
+    return res.status(400).json({ error: "leagueId must be a Sleeper league id" });
+  }
+
+  try {
+    const { snapshot, cache } = await getSleeperLeague(leagueId);
+    const contexts = await ensureScoreboardContexts();
+    // Opponents change weekly, so they are attached per request rather than cached with the league.
+    const teams = snapshot.teams.map((team) => ({
+      ...team,
+      players: team.players.map((player) => ({ ...player, opponent: getTeamOpponent(contexts, player.team) }))
+    }));
+    res.json({ data: { ...snapshot, teams }, cache: { league: cache } });
+  } catch (err) {
+    if (err.status === 404) {
+      return res.status(404).json({ error: err.message });
+    }
+    console.error(`Sleeper league import failed for ${leagueId}:`, err);
+    res.status(500).json({ error: "Failed to import the Sleeper league" });
+  }
+});
+
 app.get("/api/news", async (req, res) => {
   const team = String(req.query.team || "").toUpperCase();
+  const playerId = String(req.query.playerId || "").trim();
   const limit = Math.min(Number(req.query.limit) || 5, 20);
 
+  if (playerId) {
+    try {
+      const { map } = await getSleeperPlayers();
+      if (!map[playerId]) {
+        return res.status(404).json({ error: `Unknown Sleeper playerId ${playerId}` });
+      }
+      const { items: news, cache } = await getFantasyNews();
+      // ESPN stories are repeated once per tagged team, so keep one copy of each headline.
+      const seen = new Set();
+      const matches = news
+        .filter((item) => item.playerIds?.includes(playerId))
+        .filter((item) => !seen.has(item.headline) && seen.add(item.headline))
+        .sort((a, b) => (Date.parse(b.createdAt) || 0) - (Date.parse(a.createdAt) || 0))
+        .slice(0, limit);
+      return res.json({ data: matches, cache: { news: cache } });
+    } catch (err) {
+      console.error(`Player news failed for ${playerId}:`, err);
+      return res.status(500).json({ error: "Failed to load player news" });
+    }
+  }
+
   try {
-    await getScoreboard();
-    const matchupEntries = (scoreboardCache.matchupNews || []).filter((item) =>
+    const scoreboard = await getScoreboard();
+    const matchupEntries = (scoreboard.matchupNews || []).filter((item) =>
       team ? item.team === team : true
     );
     if (matchupEntries.length) {
-      return res.json({ data: matchupEntries.slice(0, limit) });
+      return res.json({ data: matchupEntries.slice(0, limit), cache: { scoreboard: scoreboard.cache } });
     }
   } catch (err) {
     console.warn("Matchup news unavailable:", err.message);
   }
 
   try {
-    const news = await getFantasyNews();
+    const { items: news, cache } = await getFantasyNews();
     const filtered = news.filter((item) => (!team ? true : item.team === team)).slice(0, limit);
     if (!filtered.length) {
       throw new Error("No remote news found");
     }
-    res.json({ data: filtered });
+    res.json({ data: filtered, cache: { news: cache } });
   } catch (err) {
     console.warn("FantasyLife news fetch failed, using bundled notes:", err.message);
     let fallback = sampleNews.filter((item) => (!team ? true : item.team === team)).slice(0, limit);
@@ -613,6 +1198,199 @@ app.get("/api/news", async (req, res) => {
   }
 });
 
+app.get("/api/scoring-profiles", (req, res) => {
+  res.json({ data: BUILT_IN_PROFILES, defaultProfileId: DEFAULT_PROFILE.id });
+});
+
+app.post("/api/score", (req, res) => {
+  const players = req.body?.players;
+  const viewMode = req.body?.viewMode === "ROS" ? "ROS" : "WEEK";
+  const playoffWeight = req.body?.playoffWeight === undefined ? 1 : Number(req.body.playoffWeight);
+  if (!Array.isArray(players)) {
+    return res.status(400).json({ error: "players array is required" });
+  }
+  if (players.length > MAX_SCORE_BATCH) {
+    return res.status(400).json({ error: `Score at most ${MAX_SCORE_BATCH} players per request` });
+  }
+  if (!Number.isFinite(playoffWeight) || playoffWeight < 0) {
+    return res.status(400).json({ error: "playoffWeight must be a non-negative number" });
+  }
+  const invalidIndex = players.findIndex((player) => !player || typeof player.position !== "string");
+  if (invalidIndex !== -1) {
+    return res.status(400).json({ error: `Player at index ${invalidIndex} is missing a position` });
+  }
+
+  let profile = DEFAULT_PROFILE;
+  if (req.body?.profile) {
+    const { profile: custom, errors } = normalizeProfile(req.body.profile);
+    if (!custom || errors.length) {
+      return res.status(400).json({ error: "Invalid scoring profile", details: errors });
+    }
+    profile = custom;
+  } else if (req.body?.profileId) {
+    profile = findProfile(BUILT_IN_PROFILES, String(req.body.profileId));
+    if (!profile) {
+      return res.status(400).json({
+        error: `Unknown profileId. Use one of: ${BUILT_IN_PROFILES.map((p) => p.id).join(", ")}`
+      });
+    }
+  }
+
+  const data = players.map((player) => {
+    const position = normalizePosition(player.position);
+    const breakdown = explainScore({ ...player, position }, { viewMode, profile, playoffWeight });
+    return {
+      id: player.id ?? null,
+      name: player.name ?? null,
+      position,
+      score: breakdown.score,
+      projection: projectPoints({ ...player, position }, breakdown, profile),
+      breakdown
+    };
+  });
+  res.json({ data, viewMode, profileId: profile.id });
+});
+
+const requireDatabase = (req, res, next) => {
+  if (!databaseReady) {
+    return res.status(503).json({ error: "Board storage is unavailable. Check PG_URI and restart the server." });
+  }
+  next();
+};
+
+const normalizeBoardId = (value) => String(value || "").trim().toLowerCase();
+
+// Every save also refreshes the player's snapshot for the week the board is scoring (`?week=`,
+// default current). History is a side effect, so a bad week, a missing calendar, or a failed
+// insert never fails the save itself.
+async function snapshotRequestWeek(boardId, players, query) {
+  try {
+    const { target, error } = parseWeekQuery(query);
+    const week = error ? null : await resolveScoreboardWeek(target);
+    if (!week) throw new Error(error || "week is not on this season's NFL calendar");
+    await recordSnapshots(boardId, players, week);
+  } catch (err) {
+    console.warn(`Weekly snapshot skipped for board ${boardId}:`, err.message);
+  }
+}
+
+app.get("/api/boards/:id/players", requireDatabase, async (req, res) => {
+  const boardId = normalizeBoardId(req.params.id);
+  try {
+    const players = await listBoardPlayers(boardId);
+    res.json({ data: players, boardId });
+  } catch (err) {
+    console.error(`Failed to load board ${boardId}:`, err);
+    res.status(500).json({ error: "Failed to load board players" });
+  }
+});
+
+app.post("/api/boards/:id/players", requireDatabase, async (req, res) => {
+  const boardId = normalizeBoardId(req.params.id);
+  const validationError = validatePlayer(req.body);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  try {
+    const player = await upsertBoardPlayer(boardId, req.body);
+    await snapshotRequestWeek(boardId, [player], req.query);
+    res.status(201).json({ data: player });
+  } catch (err) {
+    console.error(`Failed to add player to board ${boardId}:`, err);
+    res.status(500).json({ error: "Failed to save player" });
+  }
+});
+
+app.delete("/api/boards/:id/players", requireDatabase, async (req, res) => {
+  const boardId = normalizeBoardId(req.params.id);
+  try {
+    const removed = await clearBoardPlayers(boardId);
+    res.json({ removed });
+  } catch (err) {
+    console.error(`Failed to clear board ${boardId}:`, err);
+    res.status(500).json({ error: "Failed to clear board" });
+  }
+});
+
+app.get("/api/boards/:id/players/:playerId", requireDatabase, async (req, res) => {
+  const boardId = normalizeBoardId(req.params.id);
+  try {
+    const player = await getBoardPlayer(boardId, req.params.playerId);
+    if (!player) {
+      return res.status(404).json({ error: "Player not found on this board." });
+    }
+    res.json({ data: player });
+  } catch (err) {
+    console.error(`Failed to load player ${req.params.playerId} on board ${boardId}:`, err);
+    res.status(500).json({ error: "Failed to load player" });
+  }
+});
+
+app.put("/api/boards/:id/players/:playerId", requireDatabase, async (req, res) => {
+  const boardId = normalizeBoardId(req.params.id);
+  const payload = { ...req.body, id: req.params.playerId };
+  const validationError = validatePlayer(payload);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  try {
+    const player = await upsertBoardPlayer(boardId, payload);
+    await snapshotRequestWeek(boardId, [player], req.query);
+    res.json({ data: player });
+  } catch (err) {
+    console.error(`Failed to update player ${req.params.playerId} on board ${boardId}:`, err);
+    res.status(500).json({ error: "Failed to save player" });
+  }
+});
+
+app.delete("/api/boards/:id/players/:playerId", requireDatabase, async (req, res) => {
+  const boardId = normalizeBoardId(req.params.id);
+  try {
+    const removed = await deleteBoardPlayer(boardId, req.params.playerId);
+    if (!removed) {
+      return res.status(404).json({ error: "Player not found on this board." });
+    }
+    res.status(204).end();
+  } catch (err) {
+    console.error(`Failed to remove player ${req.params.playerId} from board ${boardId}:`, err);
+    res.status(500).json({ error: "Failed to remove player" });
+  }
+});
+
+app.get("/api/boards/:id/history", requireDatabase, async (req, res) => {
+  const boardId = normalizeBoardId(req.params.id);
+  const playerId = req.query.playerId ? String(req.query.playerId) : null;
+  const season = req.query.season === undefined ? null : Number(req.query.season);
+  if (season !== null && !Number.isInteger(season)) {
+    return res.status(400).json({ error: "season must be a year, e.g. 2026" });
+  }
+
+  try {
+    const snapshots = await listSnapshots(boardId, { playerId, season });
+    res.json({ data: snapshots, boardId });
+  } catch (err) {
+    console.error(`Failed to load history for board ${boardId}:`, err);
+    res.status(500).json({ error: "Failed to load board history" });
+  }
+});
+
+// Records every board player for a week in one go, e.g. before the week's waivers run.
+app.post("/api/boards/:id/snapshots", requireDatabase, async (req, res) => {
+  const boardId = normalizeBoardId(req.params.id);
+  try {
+    const week = await getWeekForRequest(req, res);
+    if (!week) return;
+    const players = await listBoardPlayers(boardId);
+    const recorded = await recordSnapshots(boardId, players, week);
+    res.status(201).json({ data: { recorded, season: week.season, seasonType: week.seasonType, week: week.week } });
+  } catch (err) {
+    console.error(`Failed to snapshot board ${boardId}:`, err);
+    res.status(500).json({ error: "Failed to record board snapshots" });
+  }
+});
+
 app.post("/api/admin/refresh-defense", async (req, res) => {
   const ok = await refreshDefenseRanks(true);
   if (!ok) {
@@ -621,13 +1399,80 @@ app.post("/api/admin/refresh-defense", async (req, res) => {
   res.json({ data: defenseRanks, source: "forced-refresh" });
 });
 
+const STATUS_SOURCES = [
+  {
+    id: "espnScoreboard",
+    label: "ESPN scoreboard (odds and kickoffs)",
+    provider: providers.espn,
+    cache: async () => {
+      const calendar = await calendarCache.peek("calendar");
+      const current = calendar?.value.current;
+      return (current && (await scoreboardCache.peek(weekKeyFor(current)))) || calendar;
+    }
+  },
+  // The week-by-week fetches behind /api/schedule; each week lands in the scoreboard cache, so there's no single age.
+  { id: "espnSchedule", label: "ESPN season schedule", provider: providers.espn, cache: () => null },
+  { id: "espnNews", label: "ESPN news", provider: providers.espn, cache: () => newsCache.peek("news") },
+  // FantasyLife only backs up ESPN news, so its responses land in the news cache entry above.
+  { id: "fantasyLife", label: "FantasyLife news", provider: providers.fantasyLife, cache: () => null },
+  { id: "sleeper", label: "Sleeper players", provider: providers.sleeper, cache: () => sleeperCache.peek("players") },
+  { id: "openMeteo", label: "Open-Meteo forecasts", provider: providers.openMeteo, cache: () => weatherCache.newest() }
+];
+
+/**
+ * Health of every upstream: last success and error, fallback in use, and the age of the data being
+ * served. Only sources the server has needed since it started report a last success or error.
+ */
+app.get("/api/status", async (req, res) => {
+  const sources = await Promise.all(
+    STATUS_SOURCES.map(async ({ id, label, provider, cache }) => {
+      const health = getSourceHealth(id);
+      const age = cacheAge(await cache());
+      return { id, label, mode: provider.mode, status: summarizeSource(health, age), ...health, cache: age };
+    })
+  );
+  const defenseHealth = getSourceHealth("defense");
+  const defenseAge = defenseCacheAge();
+  sources.push({
+    id: "defense",
+    label: "Defense rankings",
+    mode: process.env.DEFENSE_RANKINGS_SOURCE ? "live" : "file",
+    status: summarizeSource(defenseHealth, defenseAge),
+    ...defenseHealth,
+    cache: defenseAge
+  });
+  res.json({ data: { checkedAt: new Date().toISOString(), database: databaseReady, sources } });
+});
+
 app.get("/api/test", (req, res) => {
   res.json({ message: "Server connection successful!" });
 });
 
+async function initDatabase() {
+  if (!process.env.PG_URI) {
+    console.warn("PG_URI not set; board storage disabled. Clients will keep players in localStorage.");
+    return;
+  }
+  if (!(await connectDB())) return;
+  try {
+    const ran = await runMigrations();
+    if (ran.length) console.log(`Applied migrations: ${ran.join(", ")}`);
+    databaseReady = true;
+  } catch (err) {
+    console.error("Database migrations failed:", err.message);
+  }
+}
+
 const PORT = process.env.PORT || 5000;
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
+  initDatabase();
+  fsPromises
+    .stat(defenseFilePath)
+    .then((stats) => {
+      defenseRanksUpdatedAt = defenseRanksUpdatedAt || stats.mtimeMs;
+    })
+    .catch(() => {});
   refreshDefenseRanks(true);
   ensureScoreboardContexts();
   setInterval(() => refreshDefenseRanks(), DEFENSE_REFRESH_MS).unref();
@@ -0,0 +1,331 @@
+import { SCORE_BUCKETS, explainScore, normalizePosition, normalizeProfile } from "../../shared/scoring/index.js";
+import { parseDefenseCsv } from "./defense-ranks.js";
+
+const ARRAY_CANDIDATE_KEYS = ["rows", "players", "data", "results"];
+const FIELD_KEYS = {
+  season: ["season", "year"],
+  week: ["week", "wk"],
+  id: ["id", "playerId", "player_id", "sleeperId", "sleeper_id"],
+  name: ["name", "player", "playerName", "player_name", "fullName", "full_name"],
+  position: ["position", "pos"],
+  team: ["team", "teamAbbr", "team_abbr"],
+  opponent: ["opponent", "opp"],
+  impliedTotal: ["impliedTotal", "implied_total", "implied"],
+  overUnder: ["overUnder", "over_under", "total", "O/U", "ou"],
+  spread: ["spread"],
+  defRank: ["defRank", "def_rank", "DEF"],
+  actual: ["actual", "actualPoints", "actual_points", "fantasyPoints", "fantasy_points", "points", "fpts"]
+};
+const FIELD_NAMES = new Set(Object.values(FIELD_KEYS).flat().map((key) => key.toLowerCase()));
+FIELD_NAMES.add("stats");
+
+// Columns the board export computes from the stats (score, projection, FAAB, breakdown). They are
+// outputs of the engine being tested, so they must never be read back in as stats.
+const COMPUTED_COLUMNS = new Set([
+  "score",
+  "proj floor",
+  "proj median",
+  "proj ceiling",
+  "injury",
+  "weather",
+  "faab aggressive",
+  "faab median",
+  "faab minimum",
+  "matched rules",
+  ...SCORE_BUCKETS.flatMap((bucket) => [`${bucket} raw`, `${bucket} norm`])
+]);
+const isComputedColumn = (lower) => COMPUTED_COLUMNS.has(lower) || lower.startsWith("adj ");
+
+// Calibration bands span ten score points each: 0-9, 10-19, ... 90-100.
+const CALIBRATION_BAND = 10;
+// Correlation over fewer than three players in a week says nothing.
+const MIN_GROUP_SIZE = 3;
+const SEARCH_SCALES = [0, 0.5, 0.8, 1.25, 1.6, 2.5];
+
+const pick = (row, keys) => {
+  for (const key of keys) {
+    const value = row?.[key] ?? row?.[key.toLowerCase()];
+    if (value !== undefined && value !== null && value !== "") return value;
+  }
+  return null;
+};
+
+const numberOrNull = (value) => {
+  if (value === null || value === undefined || value === "") return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+const round = (value, digits = 3) => (value === null ? null : Number(value.toFixed(digits)));
+
+// Flat rows carry stats as extra columns. The CSV parser also adds lower-cased copies of every
+// header, so each label is kept once or the engine would count it twice.
+function readStats(row) {
+  if (row.stats && typeof row.stats === "object") return row.stats;
+  const stats = {};
+  const seen = new Set();
+  Object.entries(row).forEach(([key, value]) => {
+    const lower = key.toLowerCase();
+    if (FIELD_NAMES.has(lower) || isComputedColumn(lower) || seen.has(lower)) return;
+    seen.add(lower);
+    const num = numberOrNull(value);
+    if (num !== null) stats[key] = num;
+  });
+  return stats;
+}
+
+function coerceRows(raw) {
+  if (typeof raw === "string") {
+    const trimmed = raw.trim();
+    if (!trimmed) return [];
+    try {
+      return coerceRows(JSON.parse(trimmed));
+    } catch {
+      return parseDefenseCsv(trimmed);
+    }
+  }
+  if (Array.isArray(raw)) return raw;
+  const key = ARRAY_CANDIDATE_KEYS.find((candidate) => Array.isArray(raw?.[candidate]));
+  return key ? raw[key] : [];
+}
+
+/**
+ * Normalizes historical player-weeks (JSON array, `{ rows }`, or CSV) into the shape the scoring
+ * engine expects plus the `actual` fantasy points scored that week. Any column that isn't a known
+ * or computed field is treated as a stat, so a board CSV export works once week and actual-points
+ * columns are added.
+ */
+export function normalizeBacktestRows(raw) {
+  const rows = [];
+  let skipped = 0;
+  coerceRows(raw).forEach((row) => {
+    const week = numberOrNull(pick(row, FIELD_KEYS.week));
+    const actual = numberOrNull(pick(row, FIELD_KEYS.actual));
+    const name = pick(row, FIELD_KEYS.name);
+    const position = normalizePosition(pick(row, FIELD_KEYS.position));
+    if (!Number.isInteger(week) || actual === null || !name || !position) {
+      skipped += 1;
+      return;
+    }
+    rows.push({
+      season: numberOrNull(pick(row, FIELD_KEYS.season)),
+      week,
+      id: String(pick(row, FIELD_KEYS.id) ?? name),
+      name: String(name),
+      position,
+      team: pick(row, FIELD_KEYS.team),
+      opponent: pick(row, FIELD_KEYS.opponent),
+      impliedTotal: numberOrNull(pick(row, FIELD_KEYS.impliedTotal)),
+      overUnder: numberOrNull(pick(row, FIELD_KEYS.overUnder)),
+      spread: numberOrNull(pick(row, FIELD_KEYS.spread)),
+      defRank: numberOrNull(pick(row, FIELD_KEYS.defRank)),
+      stats: readStats(row),
+      actual
+    });
+  });
+  return { rows, skipped };
+}
+
+// Average ranks, so tied values share the mean of the positions they span.
+function rankValues(values) {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array(values.length);
+  for (let start = 0; start < order.length; ) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end += 1;
+    const rank = (start + end) / 2 + 1;
+    for (let i = start; i <= end; i += 1) ranks[order[i].index] = rank;
+    start = end + 1;
+  }
+  return ranks;
+}
+
+/** Spearman rank correlation; null when either side has no spread to rank. */
+export function spearmanCorrelation(xs, ys) {
+  if (xs.length !== ys.length || xs.length < 2) return null;
+  const rx = rankValues(xs);
+  const ry = rankValues(ys);
+  const mean = (rx.length + 1) / 2;
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+  rx.forEach((rank, i) => {
+    cov += (rank - mean) * (ry[i] - mean);
+    varX += (rank - mean) ** 2;
+    varY += (ry[i] - mean) ** 2;
+  });
+  return varX && varY ? cov / Math.sqrt(varX * varY) : null;
+}
+
+const groupKey = (row) => `${row.season ?? ""}|${row.week}|${row.position}`;
+
+function groupRows(rows) {
+  const groups = new Map();
+  rows.forEach((row) => {
+    const key = groupKey(row);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key).push(row);
+  });
+  return Array.from(groups.values());
+}
+
+const scoreRows = (rows, profile) =>
+  rows.map((row) => ({ ...row, score: explainScore(row, { profile, viewMode: "WEEK" }).score }));
+
+function topHits(group, topN) {
+  const size = Math.min(topN, group.length);
+  const byScore = [...group].sort((a, b) => b.score - a.score).slice(0, size);
+  const topActual = new Set([...group].sort((a, b) => b.actual - a.actual).slice(0, size).map((row) => row.id));
+  return { hits: byScore.filter((row) => topActual.has(row.id)).length, picks: size };
+}
+
+function calibrate(scored) {
+  const bands = new Map();
+  scored.forEach((row) => {
+    const floor = Math.min(Math.floor(row.score / CALIBRATION_BAND) * CALIBRATION_BAND, 100 - CALIBRATION_BAND);
+    const band = bands.get(floor) || { min: floor, max: floor + CALIBRATION_BAND, count: 0, score: 0, actual: 0 };
+    band.count += 1;
+    band.score += row.score;
+    band.actual += row.actual;
+    bands.set(floor, band);
+  });
+  return Array.from(bands.values())
+    .sort((a, b) => a.min - b.min)
+    .map((band) => ({
+      range: `${band.min}-${band.max}`,
+      players: band.count,
+      avgScore: round(band.score / band.count, 1),
+      avgActual: round(band.actual / band.count, 2)
+    }));
+}
+
+function summarize(groups, topN) {
+  let correlationSum = 0;
+  let weeks = 0;
+  let hits = 0;
+  let picks = 0;
+  groups.forEach((group) => {
+    if (group.length < MIN_GROUP_SIZE) return;
+    const correlation = spearmanCorrelation(
+      group.map((row) => row.score),
+      group.map((row) => row.actual)
+    );
+    if (correlation === null) return;
+    correlationSum += correlation;
+    weeks += 1;
+    const top = topHits(group, topN);
+    hits += top.hits;
+    picks += top.picks;
+  });
+  return {
+    weeks,
+    rankCorrelation: weeks ? round(correlationSum / weeks) : null,
+    topHitRate: picks ? round(hits / picks) : null
+  };
+}
+
+/**
+ * Scores every player-week with `profile` and compares the ranking against actual fantasy points.
+ * Rankings are judged within a position and week (the way waiver decisions are made); the overall
+ * figures average those same position-weeks.
+ */
+export function runBacktest(rows, { profile, topN = 12 } = {}) {
+  const scored = scoreRows(rows, profile);
+  const groups = groupRows(scored);
+  const positions = Array.from(new Set(scored.map((row) => row.position))).sort();
+
+  return {
+    profileId: profile?.id || "ppr",
+    playerWeeks: scored.length,
+    topN,
+    overall: summarize(groups, topN),
+    byPosition: positions.map((position) => {
+      const positionGroups = groups.filter((group) => group[0].position === position);
+      const positionRows = scored.filter((row) => row.position === position);
+      return {
+        position,
+        playerWeeks: positionRows.length,
+        ...summarize(positionGroups, topN),
+        calibration: calibrate(positionRows)
+      };
+    })
+  };
+}
+
+const meanCorrelation = (rows, profile) => summarize(groupRows(scoreRows(rows, profile)), 1).rankCorrelation ?? -1;
+
+const cloneProfile = (profile) => ({
+  ...profile,
+  statRules: profile.statRules.map((rule) => ({ ...rule })),
+  bucketWeights: { ...profile.bucketWeights }
+});
+
+/**
+ * Coordinate search over bucket weights and stat-rule weights: each pass tries scaling every weight
+ * in turn and keeps any change that raises the mean weekly rank correlation. The latest weeks are held
+ * out (`holdout` is the share of weeks) so the report shows whether the gain carries past the data it was fit on.
+ */
+export function searchWeights(rows, { profile, passes = 2, holdout = 0.25 } = {}) {
+  const weeks = Array.from(new Set(rows.map((row) => `${row.season ?? 0}|${String(row.week).padStart(2, "0")}`))).sort();
+  const holdoutCount = weeks.length > 3 ? Math.max(1, Math.round(weeks.length * holdout)) : 0;
+  const holdoutWeeks = new Set(weeks.slice(weeks.length - holdoutCount));
+  const weekOf = (row) => `${row.season ?? 0}|${String(row.week).padStart(2, "0")}`;
+  const train = rows.filter((row) => !holdoutWeeks.has(weekOf(row)));
+  const test = rows.filter((row) => holdoutWeeks.has(weekOf(row)));
+
+  let best = cloneProfile(profile);
+  let bestScore = meanCorrelation(train, best);
+  const startScore = bestScore;
+
+  const candidates = [
+    ...SCORE_BUCKETS.map((bucket) => ({
+      read: (p) => p.bucketWeights[bucket],
+      write: (p, value) => {
+        p.bucketWeights[bucket] = value;
+      }
+    })),
+    ...best.statRules.map((rule, index) => ({
+      read: (p) => p.statRules[index].weight,
+      write: (p, value) => {
+        p.statRules[index].weight = value;
+      }
+    }))
+  ];
+
+  for (let pass = 0; pass < passes; pass += 1) {
+    let improved = false;
+    candidates.forEach(({ read, write }) => {
+      const current = read(best);
+      if (!current) return;
+      SEARCH_SCALES.forEach((scale) => {
+        const trial = cloneProfile(best);
+        write(trial, Number((current * scale).toFixed(3)));
+        const trialScore = meanCorrelation(train, trial);
+        if (trialScore > bestScore + 0.0005) {
+          best = trial;
+          bestScore = trialScore;
+          improved = true;
+        }
+      });
+    });
+    if (!improved) break;
+  }
+
+  return {
+    profile: best,
+    trainWeeks: weeks.length - holdoutCount,
+    holdoutWeeks: holdoutCount,
+    train: { before: round(startScore), after: round(bestScore) },
+    holdout: test.length
+      ? { before: round(meanCorrelation(test, profile)), after: round(meanCorrelation(test, best)) }
+      : null
+  };
+}
+
+/** Wraps tuned weights as an importable scoring profile (validated like any other import). */
+export function exportTunedProfile(search, { id = "backtest-tuned", name = "Backtest tuned" } = {}) {
+  const description = `Weights tuned on ${search.trainWeeks} week(s) of history; mean rank correlation ${search.train.before} -> ${search.train.after}.`;
+  const { profile, errors } = normalizeProfile({ ...search.profile, id, name, description });
+  if (errors.length) throw new Error(`Tuned profile failed validation: ${errors.join(" ")}`);
+  return profile;
+}
@@ -0,0 +1,57 @@
+import { isOutStatus } from "../../shared/scoring/index.js";
+
+// Roster statuses Sleeper uses for players who cannot suit up regardless of the weekly report.
+const OUT_ROSTER_STATUSES = new Set([
+  "Injured Reserve",
+  "Physically Unable to Perform",
+  "Non Football Injury",
+  "Inactive"
+]);
+
+const numberOrNull = (value) => {
+  const num = Number(value);
+  return value === null || value === undefined || value === "" || !Number.isFinite(num) ? null : num;
+};
+
+/** The injury and depth-chart fields kept from Sleeper's player payload. */
+export function pickInjuryFields(raw) {
+  return {
+    injuryStatus: raw?.injury_status || null,
+    injuryBodyPart: raw?.injury_body_part || null,
+    status: raw?.status || null,
+    depthChartPosition: raw?.depth_chart_position || null,
+    depthChartOrder: numberOrNull(raw?.depth_chart_order)
+  };
+}
+
+export const isPlayerOut = (player) => isOutStatus(player?.injuryStatus) || OUT_ROSTER_STATUSES.has(player?.status);
+
+/** Groups out players by `TEAM|POS` so opportunity checks don't rescan the whole player list. */
+export function indexOutPlayers(players) {
+  const index = new Map();
+  players.forEach((player) => {
+    if (!isPlayerOut(player) || player.depthChartOrder === null) return;
+    const key = `${player.team}|${player.position}`;
+    if (!index.has(key)) index.set(key, []);
+    index.get(key).push(player);
+  });
+  return index;
+}
+
+/**
+ * Out teammates at the player's position who sit ahead of them on the depth chart. With no
+ * depth-chart slot of their own, only an out starter counts.
+ */
+export function findOpportunity(player, outIndex) {
+  if (!player || isPlayerOut(player)) return [];
+  const ownOrder = player.depthChartOrder;
+  return (outIndex.get(`${player.team}|${player.position}`) || [])
+    .filter((teammate) => teammate.id !== player.id)
+    .filter((teammate) => (ownOrder === null ? teammate.depthChartOrder === 1 : teammate.depthChartOrder < ownOrder))
+    .map((teammate) => ({
+      id: teammate.id,
+      fullName: teammate.fullName,
+      injuryStatus: teammate.injuryStatus,
+      status: teammate.status
+    }));
+}
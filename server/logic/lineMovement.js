@@ -0,0 +1,68 @@
+// Moves at least this large since the opening line are flagged as sharp. An implied total rising
+// three points usually means a new starter or a weather or injury change the market has priced in.
+export const SHARP_MOVE_THRESHOLDS = { impliedTotal: 3, overUnder: 3, spread: 2.5 };
+
+const MOVE_LABELS = { impliedTotal: "Implied total", overUnder: "Game total", spread: "Spread" };
+
+const round1 = (value) => Number(value.toFixed(1));
+
+const deltaOf = (open, current, key) =>
+  typeof open[key] === "number" && typeof current[key] === "number" ? round1(current[key] - open[key]) : null;
+
+/**
+ * Opening line, current line, and how far each number has moved. Spreads move toward a team as
+ * they drop (-3 to -6), so a falling spread is described as the team getting more favored.
+ */
+export function summarizeLineMovement(points) {
+  if (!points.length) return null;
+  const open = points[0];
+  const current = points[points.length - 1];
+  const moves = {
+    impliedTotal: deltaOf(open, current, "impliedTotal"),
+    overUnder: deltaOf(open, current, "overUnder"),
+    spread: deltaOf(open, current, "spread")
+  };
+  const sharp = Object.entries(SHARP_MOVE_THRESHOLDS)
+    .filter(([key, threshold]) => moves[key] !== null && Math.abs(moves[key]) >= threshold)
+    .map(([key]) => {
+      const delta = moves[key];
+      const direction = key === "spread" ? (delta < 0 ? "toward" : "away from") : delta > 0 ? "up" : "down";
+      const text =
+        key === "spread"
+          ? `${MOVE_LABELS[key]} moved ${Math.abs(delta)} ${direction} ${current.team} since open`
+          : `${MOVE_LABELS[key]} ${direction} ${Math.abs(delta)} since open`;
+      return { key, delta, text };
+    });
+  return { open, current, moves, sharp };
+}
+
+/**
+ * Turns saved game lines (home-side spreads, oldest first) into one series per team with its own
+ * spread and implied total, plus the movement summary for each.
+ */
+export function buildTeamLineHistory(lines) {
+  const byTeam = {};
+  lines.forEach((line) => {
+    [
+      { team: line.homeTeam, opponent: line.awayTeam, home: true },
+      { team: line.awayTeam, opponent: line.homeTeam, home: false }
+    ].forEach(({ team, opponent, home }) => {
+      if (!byTeam[team]) {
+        byTeam[team] = { team, opponent, gameId: line.gameId, kickoff: line.kickoff, points: [] };
+      }
+      const spread = typeof line.homeSpread === "number" ? (home ? line.homeSpread : -line.homeSpread) : null;
+      byTeam[team].points.push({
+        recordedAt: line.recordedAt,
+        team,
+        spread,
+        overUnder: line.overUnder,
+        impliedTotal: home ? line.homeImplied : line.awayImplied,
+        opponentImpliedTotal: home ? line.awayImplied : line.homeImplied
+      });
+    });
+  });
+  Object.values(byTeam).forEach((entry) => {
+    entry.movement = summarizeLineMovement(entry.points);
+  });
+  return byTeam;
+}
@@ -0,0 +1,56 @@
+// Team defenses are named after their teams, so matching them would tag every team story.
+const SKIP_POSITIONS = new Set(["DEF", "DST"]);
+
+/** Lower-cases and strips punctuation so "D.J. Moore" and "DJ Moore" or "St. Brown" and "St Brown" line up. */
+export const normalizeNewsText = (text) =>
+  ` ${String(text || "")
+    .toLowerCase()
+    .replace(/[.'’]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()} `;
+
+const containsPhrase = (haystack, phrase) => Boolean(phrase.trim()) && haystack.includes(` ${phrase.trim()} `);
+
+/**
+ * Builds a matcher that tags a news item with the Sleeper ids of the players it is about. A
+ * player matches on their full name, on a multi-word nickname, or on their last name or a
+ * one-word nickname in a story about their team. Single words need the team so "Allen" in a
+ * Bills story isn't a Chargers WR and "Gibbs" isn't whoever else shares the name.
+ */
+export function buildNewsMatcher(players, nicknames = {}) {
+  const byLastName = new Map();
+  const nicknameEntries = [];
+
+  players.forEach((player) => {
+    if (SKIP_POSITIONS.has(player.position)) return;
+    const fullName = normalizeNewsText(player.fullName).trim();
+    const lastName = normalizeNewsText(player.lastNameKey || fullName.split(" ").pop()).trim();
+    if (!lastName) return;
+    const lastToken = lastName.split(" ").pop();
+    if (!byLastName.has(lastToken)) byLastName.set(lastToken, []);
+    byLastName.get(lastToken).push({ player, fullName, lastName });
+    (nicknames[player.fullName] || []).forEach((nickname) => {
+      const normalized = normalizeNewsText(nickname).trim();
+      nicknameEntries.push({ player, nickname: normalized, needsTeam: !normalized.includes(" ") });
+    });
+  });
+
+  return function matchPlayers(item) {
+    const text = normalizeNewsText(`${item.headline || ""} ${item.analysis || ""}`);
+    const tokens = new Set(text.trim().split(" "));
+    const matched = new Map();
+
+    tokens.forEach((token) => {
+      (byLastName.get(token) || []).forEach(({ player, fullName, lastName }) => {
+        if (containsPhrase(text, fullName) || (item.team === player.team && containsPhrase(text, lastName))) {
+          matched.set(player.id, player);
+        }
+      });
+    });
+    nicknameEntries.forEach(({ player, nickname, needsTeam }) => {
+      if (needsTeam && item.team !== player.team) return;
+      if (containsPhrase(text, nickname)) matched.set(player.id, player);
+    });
+    return [...matched.values()];
+  };
+}
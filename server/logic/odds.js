@@ -0,0 +1,159 @@
+import { parseDefenseCsv } from "./defense-ranks.js";
+
+// Every odds source (ESPN's scoreboard entries, an imported feed) produces lines in one shape:
+// `{ book, source, homeSpread, total }`, with the spread from the home team's side and any
+// number the book doesn't post left null.
+
+const ARRAY_CANDIDATE_KEYS = ["lines", "odds", "games", "data"];
+const WEEK_KEYS = ["week", "wk", "weekNumber", "week_number"];
+const SEASON_TYPE_KEYS = ["seasonType", "season_type", "seasontype"];
+const HOME_KEYS = ["home", "homeTeam", "home_team", "homeAbbr", "home_abbr"];
+const AWAY_KEYS = ["away", "awayTeam", "away_team", "awayAbbr", "away_abbr"];
+const BOOK_KEYS = ["book", "sportsbook", "provider", "source"];
+const SPREAD_KEYS = ["homeSpread", "home_spread", "spread"];
+const TOTAL_KEYS = ["total", "overUnder", "over_under", "ou"];
+
+const REGULAR_SEASON = 2;
+
+const pick = (obj, keys) => {
+  for (const key of keys) {
+    const value = obj?.[key] ?? obj?.[key.toLowerCase()];
+    if (value !== undefined && value !== null && value !== "") return value;
+  }
+  return null;
+};
+
+const numberOrNull = (value) => {
+  if (value === null || value === undefined || value === "") return null;
+  if (typeof value === "string" && /^(even|pk|pick)$/i.test(value.trim())) return 0;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+const teamAbbr = (value) => (typeof value === "string" && value.trim() ? value.trim().toUpperCase() : null);
+
+const round1 = (value) => Number(value.toFixed(1));
+
+/**
+ * Home-side spread from an ESPN odds entry. `details` names the favorite ("KC -3.5", "EVEN");
+ * without it, ESPN's own `spread` field is already from the home side.
+ */
+function espnHomeSpread(odds, homeAbbr, awayAbbr) {
+  const details = String(odds?.details || "").trim();
+  if (/^(even|pk|pick)/i.test(details)) return 0;
+  const [favored, amount] = details.split(/\s+/);
+  const magnitude = Math.abs(parseFloat(amount));
+  if (favored && Number.isFinite(magnitude)) {
+    const token = favored.toUpperCase();
+    if (token === homeAbbr) return -magnitude;
+    if (token === awayAbbr) return magnitude;
+  }
+  return numberOrNull(odds?.spread);
+}
+
+/** One line per entry in an ESPN competition's `odds` array (ESPN BET, DraftKings, ...). */
+export function parseEspnOdds(comp, homeAbbr, awayAbbr) {
+  return (comp?.odds || [])
+    .map((odds, index) => ({
+      book: odds?.provider?.name || `ESPN odds ${index + 1}`,
+      source: "espn",
+      homeSpread: espnHomeSpread(odds, homeAbbr, awayAbbr),
+      total: numberOrNull(odds?.overUnder)
+    }))
+    .filter((line) => line.homeSpread !== null || line.total !== null);
+}
+
+function coerceRows(raw) {
+  if (typeof raw === "string") {
+    const trimmed = raw.trim();
+    if (!trimmed) return { meta: {}, rows: [] };
+    try {
+      return coerceRows(JSON.parse(trimmed));
+    } catch {
+      return { meta: {}, rows: parseDefenseCsv(trimmed) };
+    }
+  }
+  if (Array.isArray(raw)) return { meta: {}, rows: raw };
+  const key = ARRAY_CANDIDATE_KEYS.find((candidate) => Array.isArray(raw?.[candidate]));
+  return { meta: raw || {}, rows: key ? raw[key] : [] };
+}
+
+/**
+ * Normalizes an imported odds feed (JSON array, `{ season, week, lines }`, or CSV) into
+ * `{ season, lines: [{ week, seasonType, home, away, book, homeSpread, total }] }`. Rows need
+ * home and away teams plus a spread or total; a week on the wrapper applies to rows without one.
+ */
+export function normalizeOddsFeed(raw) {
+  const { meta, rows } = coerceRows(raw);
+  const defaultWeek = numberOrNull(pick(meta, WEEK_KEYS));
+  const defaultSeasonType = numberOrNull(pick(meta, SEASON_TYPE_KEYS)) ?? REGULAR_SEASON;
+  const lines = rows
+    .map((row) => {
+      const week = numberOrNull(pick(row, WEEK_KEYS)) ?? defaultWeek;
+      const home = teamAbbr(pick(row, HOME_KEYS));
+      const away = teamAbbr(pick(row, AWAY_KEYS));
+      const homeSpread = numberOrNull(pick(row, SPREAD_KEYS));
+      const total = numberOrNull(pick(row, TOTAL_KEYS));
+      if (!Number.isInteger(week) || !home || !away || (homeSpread === null && total === null)) return null;
+      return {
+        week,
+        seasonType: numberOrNull(pick(row, SEASON_TYPE_KEYS)) ?? defaultSeasonType,
+        home,
+        away,
+        book: String(pick(row, BOOK_KEYS) || "Imported"),
+        homeSpread,
+        total
+      };
+    })
+    .filter(Boolean);
+  return { season: numberOrNull(meta.season), lines };
+}
+
+/** Lines from an imported feed for one game of `week`; a feed for another season contributes nothing. */
+export function feedLinesFor(feed, week, homeAbbr, awayAbbr) {
+  if (!feed?.lines?.length || (feed.season && feed.season !== week.season)) return [];
+  return feed.lines
+    .filter(
+      (line) =>
+        line.week === week.week &&
+        line.seasonType === week.seasonType &&
+        line.home === homeAbbr &&
+        line.away === awayAbbr
+    )
+    .map(({ book, homeSpread, total }) => ({ book, source: "feed", homeSpread, total }));
+}
+
+const median = (values) => {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Consensus spread and total across books, using the median so one stale book can't drag the
+ * line. A book listed by both ESPN and the imported feed counts once, with the feed's numbers.
+ * `total` stays null when no book posts one; callers must not invent a default.
+ */
+export function buildConsensus(lines) {
+  const byBook = new Map();
+  lines.forEach((line) => {
+    const key = line.book.toLowerCase();
+    if (!byBook.has(key) || line.source === "feed") byBook.set(key, line);
+  });
+  const books = [...byBook.values()];
+  const spreads = books.map((line) => line.homeSpread).filter((value) => value !== null);
+  const totals = books.map((line) => line.total).filter((value) => value !== null);
+  const homeSpread = median(spreads);
+  const total = median(totals);
+  return {
+    homeSpread: homeSpread === null ? null : round1(homeSpread),
+    total: total === null ? null : round1(total),
+    books: books.map(({ book, source, homeSpread: spread, total: bookTotal }) => ({
+      book,
+      source,
+      homeSpread: spread,
+      total: bookTotal
+    }))
+  };
+}
@@ -0,0 +1,97 @@
+import { parseDefenseCsv } from "./defense-ranks.js";
+
+export const REGULAR_SEASON_WEEKS = 18;
+
+const ARRAY_CANDIDATE_KEYS = ["games", "schedule", "data", "events"];
+const WEEK_KEYS = ["week", "wk", "weekNumber", "week_number"];
+const HOME_KEYS = ["home", "homeTeam", "home_team", "homeAbbr", "home_abbr"];
+const AWAY_KEYS = ["away", "awayTeam", "away_team", "awayAbbr", "away_abbr"];
+
+const pick = (obj, keys) => {
+  for (const key of keys) {
+    const value = obj?.[key] ?? obj?.[key.toLowerCase()];
+    if (value !== undefined && value !== null && value !== "") return value;
+  }
+  return null;
+};
+
+const teamAbbr = (value) => {
+  const raw = typeof value === "object" && value ? value.abbr || value.abbreviation : value;
+  return typeof raw === "string" && raw.trim() ? raw.trim().toUpperCase() : null;
+};
+
+function coerceRows(raw) {
+  if (typeof raw === "string") {
+    const trimmed = raw.trim();
+    if (!trimmed) return { season: null, rows: [] };
+    try {
+      return coerceRows(JSON.parse(trimmed));
+    } catch {
+      return { season: null, rows: parseDefenseCsv(trimmed) };
+    }
+  }
+  if (Array.isArray(raw)) return { season: null, rows: raw };
+  const key = ARRAY_CANDIDATE_KEYS.find((candidate) => Array.isArray(raw?.[candidate]));
+  return { season: Number(raw?.season) || null, rows: key ? raw[key] : [] };
+}
+
+/**
+ * Normalizes an imported schedule (JSON array, `{ season, games }`, or CSV with
+ * week/home/away columns) into `{ season, games: [{ week, home, away }] }`.
+ */
+export function normalizeSchedule(raw) {
+  const { season, rows } = coerceRows(raw);
+  const games = rows
+    .map((row) => {
+      const week = Number(pick(row, WEEK_KEYS));
+      const home = teamAbbr(pick(row, HOME_KEYS));
+      const away = teamAbbr(pick(row, AWAY_KEYS));
+      if (!Number.isInteger(week) || week < 1 || !home || !away) return null;
+      return { week, home, away };
+    })
+    .filter(Boolean)
+    .sort((a, b) => a.week - b.week);
+  return { season, games };
+}
+
+/** Collects regular-season games from ESPN week scoreboards. */
+export function scheduleFromScoreboards(scoreboards) {
+  const games = [];
+  scoreboards.forEach(({ week, data }) => {
+    data?.events?.forEach((event) => {
+      const competitors = event?.competitions?.[0]?.competitors || [];
+      const home = teamAbbr(competitors.find((c) => c.homeAway === "home")?.team);
+      const away = teamAbbr(competitors.find((c) => c.homeAway === "away")?.team);
+      if (home && away) games.push({ week: week.week, home, away });
+    });
+  });
+  return games.sort((a, b) => a.week - b.week);
+}
+
+/**
+ * Every team's games from `fromWeek` through the end of the regular season.
+ * Weeks without a game come back as byes (`opponent: null`); `skipWeeks` are weeks
+ * whose games are unknown, which are left out instead.
+ */
+export function buildRemainingSchedules(games, fromWeek, { lastWeek = REGULAR_SEASON_WEEKS, skipWeeks = [] } = {}) {
+  const byTeam = {};
+  const record = (team, week, opponent, homeAway) => {
+    if (!byTeam[team]) byTeam[team] = {};
+    byTeam[team][week] = { week, opponent, homeAway };
+  };
+  games.forEach((game) => {
+    if (game.week < fromWeek || game.week > lastWeek) return;
+    record(game.home, game.week, game.away, "home");
+    record(game.away, game.week, game.home, "away");
+  });
+
+  const schedules = {};
+  Object.entries(byTeam).forEach(([team, weeks]) => {
+    schedules[team] = [];
+    for (let week = fromWeek; week <= lastWeek; week += 1) {
+      if (skipWeeks.includes(week)) continue;
+      schedules[team].push(weeks[week] || { week, opponent: null, homeAway: null });
+    }
+  });
+  return schedules;
+}
@@ -0,0 +1,71 @@
+// Sleeper encodes waiver_type as 0 = rolling, 1 = reverse standings, 2 = FAAB.
+const WAIVER_TYPES = { 0: "rolling", 1: "reverse-standings", 2: "faab" };
+const LEAGUE_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+export const isValidLeagueId = (leagueId) => LEAGUE_ID_PATTERN.test(String(leagueId || ""));
+
+const numberOrNull = (value) => {
+  const num = Number(value);
+  return value === null || value === undefined || !Number.isFinite(num) ? null : num;
+};
+
+/**
+ * Flattens Sleeper's league, rosters, and users payloads into one snapshot: waiver settings plus
+ * every fantasy team with its owner and rostered players (resolved through the cached player map).
+ */
+export function buildLeagueSnapshot({ league, rosters, users }, playerMap = {}) {
+  const usersById = new Map((users || []).map((user) => [user.user_id, user]));
+  const settings = league?.settings || {};
+  const waiverType = WAIVER_TYPES[settings.waiver_type] || "rolling";
+  const budget = waiverType === "faab" ? numberOrNull(settings.waiver_budget) : null;
+
+  const teams = (rosters || []).map((roster) => {
+    const owner = usersById.get(roster.owner_id);
+    const ownerName = owner?.display_name || owner?.username || `Team ${roster.roster_id}`;
+    const budgetUsed = numberOrNull(roster.settings?.waiver_budget_used) ?? 0;
+    return {
+      rosterId: roster.roster_id,
+      ownerId: roster.owner_id || null,
+      ownerName,
+      teamName: owner?.metadata?.team_name || ownerName,
+      waiverPosition: numberOrNull(roster.settings?.waiver_position),
+      faabRemaining: budget === null ? null : Math.max(budget - budgetUsed, 0),
+      players: (roster.players || []).map((playerId) => {
+        const player = playerMap[playerId];
+        return {
+          id: playerId,
+          fullName: player?.fullName || playerId,
+          team: player?.team || null,
+          position: player?.position || null
+        };
+      })
+    };
+  });
+
+  return {
+    leagueId: league?.league_id || null,
+    name: league?.name || "Sleeper league",
+    season: league?.season || null,
+    status: league?.status || null,
+    totalRosters: numberOrNull(league?.total_rosters) ?? teams.length,
+    rosterPositions: league?.roster_positions || [],
+    waiver: {
+      type: waiverType,
+      budget,
+      clearDays: numberOrNull(settings.waiver_clear_days),
+      dayOfWeek: numberOrNull(settings.waiver_day_of_week)
+    },
+    teams
+  };
+}
+
+/** Maps each rostered Sleeper player id to the fantasy team holding them. */
+export function indexOwnership(snapshot) {
+  const owners = new Map();
+  snapshot?.teams.forEach((team) => {
+    team.players.forEach((player) => {
+      owners.set(player.id, { rosterId: team.rosterId, ownerName: team.ownerName, teamName: team.teamName });
+    });
+  });
+  return owners;
+}
@@ -0,0 +1,103 @@
+const DEFAULT_DEFENSE_RANK = 16;
+const TEAM_COUNT = 32;
+
+export const STREAMER_POSITIONS = ["DST", "K", "QB"];
+
+// Kickers want calm air: domes are guaranteed, retractable roofs usually close for bad weather.
+const ROOF_POINTS = { dome: 10, retractable: 7, open: 0 };
+const ROOF_LABELS = { dome: "Dome", retractable: "Retractable roof", open: "Open-air stadium" };
+
+const clamp01 = (value) => Math.min(Math.max(value, 0), 1);
+const round1 = (value) => Number(value.toFixed(1));
+
+// A game can carry a total without a spread; it is then scored as a pick'em.
+const spreadFactor = (ctx, weight) => ({
+  label: ctx.spread === null ? "No spread posted" : `Spread ${ctx.spread > 0 ? "+" : ""}${ctx.spread}`,
+  points: clamp01(-(ctx.spread ?? 0) / 10) * weight
+});
+
+// A team total is only scored when a line is posted; otherwise the factor is left out instead of guessed.
+const impliedFactor = (label, total, toScore, weight) =>
+  typeof total === "number" ? { label: `${label} ${total}`, points: clamp01(toScore(total)) * weight } : null;
+
+function indexDefenseRanks(defenseRanks) {
+  const byTeam = {};
+  (defenseRanks || []).forEach((entry) => {
+    if (entry?.teamAbbr) byTeam[entry.teamAbbr.toUpperCase()] = entry;
+  });
+  return byTeam;
+}
+
+const rankFor = (byTeam, team, key) => {
+  const value = Number(byTeam[team]?.[key] ?? byTeam[team]?.overall);
+  return Number.isFinite(value) ? value : DEFAULT_DEFENSE_RANK;
+};
+
+// Each scorer returns weighted factors that sum to a 0-100 streaming score.
+const SCORERS = {
+  DST(ctx, byTeam) {
+    const ownRank = rankFor(byTeam, ctx.team, "overall");
+    return [
+      impliedFactor("Opponent implied", ctx.opponentImpliedTotal, (total) => (28 - total) / 12, 50),
+      spreadFactor(ctx, 20),
+      { label: `Own defense rank ${ownRank}`, points: clamp01((TEAM_COUNT - ownRank) / (TEAM_COUNT - 1)) * 25 },
+      { label: ctx.homeAway === "home" ? "Home game" : "Road game", points: ctx.homeAway === "home" ? 5 : 0 }
+    ];
+  },
+  K(ctx) {
+    return [
+      impliedFactor("Team implied", ctx.impliedTotal, (total) => (total - 17) / 13, 50),
+      { label: `Game total ${ctx.overUnder}`, points: clamp01((ctx.overUnder - 38) / 14) * 20 },
+      spreadFactor(ctx, 15),
+      { label: ROOF_LABELS[ctx.roof] || "Roof unknown", points: ROOF_POINTS[ctx.roof] ?? 0 },
+      { label: ctx.homeAway === "home" ? "Home game" : "Road game", points: ctx.homeAway === "home" ? 5 : 0 }
+    ];
+  },
+  QB(ctx, byTeam) {
+    const opponentRank = rankFor(byTeam, ctx.opponent, "QB");
+    return [
+      impliedFactor("Team implied", ctx.impliedTotal, (total) => (total - 17) / 13, 45),
+      {
+        label: `${ctx.opponent} pass defense rank ${opponentRank}`,
+        points: clamp01((opponentRank - 1) / (TEAM_COUNT - 1)) * 30
+      },
+      { label: `Game total ${ctx.overUnder}`, points: clamp01((ctx.overUnder - 38) / 14) * 15 },
+      spreadFactor(ctx, 5),
+      { label: ctx.homeAway === "home" ? "Home game" : "Road game", points: ctx.homeAway === "home" ? 5 : 0 }
+    ];
+  }
+};
+
+/**
+ * Ranks every team's unit at a streaming position for the loaded slate using only
+ * Vegas lines and the cached defense ranks, so no manual stat entry is needed.
+ * Teams whose game has no posted total are left out rather than ranked on guesses.
+ */
+export function rankStreamers(position, contexts, defenseRanks) {
+  const scorer = SCORERS[position];
+  if (!scorer) return [];
+  const byTeam = indexDefenseRanks(defenseRanks);
+  return Object.values(contexts || {})
+    .filter((ctx) => ctx.hasLine !== false)
+    .map((ctx) => {
+      const factors = scorer(ctx, byTeam)
+        .filter(Boolean)
+        .map((factor) => ({ ...factor, points: round1(factor.points) }));
+      const score = round1(factors.reduce((sum, factor) => sum + factor.points, 0));
+      return {
+        team: ctx.team,
+        opponent: ctx.opponent,
+        homeAway: ctx.homeAway,
+        kickoff: ctx.kickoff,
+        impliedTotal: ctx.impliedTotal,
+        opponentImpliedTotal: ctx.opponentImpliedTotal,
+        overUnder: ctx.overUnder,
+        spread: ctx.spread,
+        roof: ctx.roof,
+        score,
+        factors
+      };
+    })
+    .sort((a, b) => b.score - a.score)
+    .map((entry, index) => ({ rank: index + 1, ...entry }));
+}
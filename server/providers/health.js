@@ -0,0 +1,44 @@
+/**
+ * Last success, last error, and fallback state for each upstream data source, reported by
+ * `/api/status`. Sources are finer-grained than providers: ESPN's scoreboard and news fail
+ * independently, and the defense source is not a provider at all.
+ */
+const sources = new Map();
+
+function sourceState(id) {
+  if (!sources.has(id)) sources.set(id, { lastSuccess: null, lastError: null, fallback: null });
+  return sources.get(id);
+}
+
+/** Runs `task`, recording its success or failure against `id`; errors still propagate. */
+export async function trackSource(id, task) {
+  try {
+    const result = await task();
+    sourceState(id).lastSuccess = new Date().toISOString();
+    return result;
+  } catch (err) {
+    sourceState(id).lastError = { at: new Date().toISOString(), message: err.message };
+    throw err;
+  }
+}
+
+/** Marks `id` as being covered by something else (bundled data, another provider); null clears it. */
+export function setSourceFallback(id, fallback) {
+  sourceState(id).fallback = fallback || null;
+}
+
+export function getSourceHealth(id) {
+  const { lastSuccess, lastError, fallback } = sourceState(id);
+  return { lastSuccess, lastError, fallback };
+}
+
+/**
+ * One word for the status panel. A fallback wins; an error newer than the last success means the
+ * source is down (or "stale" when a cached copy is still being served); otherwise the cache age decides.
+ */
+export function summarizeSource({ lastSuccess, lastError, fallback }, cache) {
+  if (fallback) return "fallback";
+  if (lastError && (!lastSuccess || lastError.at > lastSuccess)) return cache ? "stale" : "down";
+  if (cache?.stale) return "stale";
+  return lastSuccess || cache ? "ok" : "idle";
+}
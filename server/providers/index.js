@@ -0,0 +1,95 @@
+import fetch from "node-fetch";
+import { promises as fsPromises } from "fs";
+import { createHash } from "crypto";
+import { fileURLToPath } from "url";
+import { dirname, join } from "path";
+
+export const PROVIDER_MODES = ["live", "record", "replay"];
+
+const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), "..", "fixtures");
+const MAX_FIXTURE_NAME = 120;
+
+/** `<PROVIDER>_FIXTURE_MODE` wins over the stack-wide `FIXTURE_MODE`; anything unset or unknown is live. */
+export function resolveProviderMode(modeEnv, env = process.env) {
+  const mode = env[modeEnv] || env.FIXTURE_MODE;
+  return PROVIDER_MODES.includes(mode) ? mode : "live";
+}
+
+// "/players/nfl/trending/add?limit=50" -> "players-nfl-trending-add-limit-50.json". Long query strings
+// (weather lookups) keep a readable prefix plus a hash so distinct requests never share a file.
+export function fixtureName(path) {
+  const name = path.replace(/^\/+/, "").replace(/[^a-z0-9]+/gi, "-").replace(/-+$/, "").toLowerCase() || "index";
+  if (name.length <= MAX_FIXTURE_NAME) return `${name}.json`;
+  const hash = createHash("sha1").update(path).digest("hex").slice(0, 10);
+  return `${name.slice(0, MAX_FIXTURE_NAME - hash.length - 1)}-${hash}.json`;
+}
+
+async function fetchLive(url) {
+  const resp = await fetch(url);
+  if (!resp.ok) {
+    throw new Error(`Request failed for ${url} (${resp.status})`);
+  }
+  return resp.json();
+}
+
+/**
+ * One upstream API behind a fixture switch. live: call it. record: call it and save each response
+ * under fixtures/<name>. replay: serve saved responses only, failing for anything never recorded.
+ * The mode is read per request so env loaded after startup (dotenv) still applies.
+ */
+export function createProvider({ name, label, baseUrl, modeEnv }) {
+  const fixtureDir = join(FIXTURES_DIR, name);
+  return {
+    name,
+    label,
+    modeEnv,
+    fixtureDir,
+    get mode() {
+      return resolveProviderMode(modeEnv);
+    },
+    async fetchJSON(path = "") {
+      const mode = this.mode;
+      const fixturePath = join(fixtureDir, fixtureName(path));
+      if (mode === "replay") {
+        try {
+          return JSON.parse(await fsPromises.readFile(fixturePath, "utf8"));
+        } catch (err) {
+          throw new Error(`No recorded ${label} fixture for ${path || "/"} (${err.message})`);
+        }
+      }
+      const data = await fetchLive(`${baseUrl}${path}`);
+      if (mode === "record") {
+        await fsPromises.mkdir(fixtureDir, { recursive: true });
+        await fsPromises.writeFile(fixturePath, JSON.stringify(data, null, 2));
+      }
+      return data;
+    }
+  };
+}
+
+export const providers = {
+  espn: createProvider({
+    name: "espn",
+    label: "ESPN",
+    baseUrl: "https://site.api.espn.com/apis/site/v2/sports/football/nfl",
+    modeEnv: "ESPN_FIXTURE_MODE"
+  }),
+  sleeper: createProvider({
+    name: "sleeper",
+    label: "Sleeper",
+    baseUrl: "https://api.sleeper.app/v1",
+    modeEnv: "SLEEPER_FIXTURE_MODE"
+  }),
+  fantasyLife: createProvider({
+    name: "fantasylife",
+    label: "FantasyLife",
+    baseUrl: "https://api.fantasylife.com/v2",
+    modeEnv: "FANTASYLIFE_FIXTURE_MODE"
+  }),
+  openMeteo: createProvider({
+    name: "open-meteo",
+    label: "Open-Meteo",
+    baseUrl: "https://api.open-meteo.com/v1",
+    modeEnv: "OPEN_METEO_FIXTURE_MODE"
+  })
+};
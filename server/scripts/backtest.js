@@ -0,0 +1,89 @@
+import { resolve, isAbsolute } from "path";
+import fs from "fs/promises";
+import { DEFAULT_PROFILE, normalizeProfile } from "../../shared/scoring/index.js";
+import { exportTunedProfile, normalizeBacktestRows, runBacktest, searchWeights } from "../logic/backtest.js";
+
+const args = process.argv.slice(2);
+const SOURCE = args.find((arg) => !arg.startsWith("--")) || "";
+const option = (name) => args.find((arg) => arg.startsWith(`--${name}=`))?.split("=").slice(1).join("=") || null;
+const TOP_N = Number(option("top")) || 12;
+const SEARCH = args.includes("--search");
+const EXPORT_PATH = option("export");
+const REPORT_PATH = option("report");
+const PROFILE_PATH = option("profile");
+
+const resolvePath = (path) => (isAbsolute(path) ? path : resolve(process.cwd(), path));
+const pad = (value, width) => String(value ?? "n/a").padEnd(width);
+
+async function loadProfile() {
+  if (!PROFILE_PATH) return DEFAULT_PROFILE;
+  const { profile, errors } = normalizeProfile(JSON.parse(await fs.readFile(resolvePath(PROFILE_PATH), "utf8")));
+  if (!profile || errors.length) {
+    throw new Error(`Profile ${PROFILE_PATH} is invalid: ${errors.join(" ")}`);
+  }
+  return profile;
+}
+
+function printReport(report) {
+  console.log(`\nProfile ${report.profileId}: ${report.playerWeeks} player-weeks`);
+  console.log(`Hit rate is the share of each position-week's top ${report.topN} by score that also finished top ${report.topN}.`);
+  console.log(
+    `Overall: rank correlation ${report.overall.rankCorrelation ?? "n/a"}, hit rate ${report.overall.topHitRate ?? "n/a"} over ${report.overall.weeks} position-weeks\n`
+  );
+  console.log(`${pad("Pos", 6)}${pad("Player-wks", 12)}${pad("Weeks", 8)}${pad("Rank corr", 11)}Hit rate`);
+  report.byPosition.forEach((row) => {
+    console.log(`${pad(row.position, 6)}${pad(row.playerWeeks, 12)}${pad(row.weeks, 8)}${pad(row.rankCorrelation, 11)}${row.topHitRate ?? "n/a"}`);
+  });
+  report.byPosition.forEach((row) => {
+    console.log(`\nCalibration ${row.position} (score band -> avg actual points)`);
+    row.calibration.forEach((band) => {
+      console.log(`  ${pad(band.range, 8)}${pad(`${band.players} players`, 13)}avg score ${pad(band.avgScore, 7)}avg actual ${band.avgActual}`);
+    });
+  });
+}
+
+async function backtest() {
+  if (!SOURCE) {
+    throw new Error(
+      "No history file provided.\nPass a JSON or CSV file of player-weeks with week, name, position, actual points, and stat columns."
+    );
+  }
+  const { rows, skipped } = normalizeBacktestRows(await fs.readFile(resolvePath(SOURCE), "utf8"));
+  if (!rows.length) {
+    throw new Error("No usable player-weeks found. Each row needs a week, name, position, and actual points.");
+  }
+  if (skipped) console.warn(`Skipped ${skipped} row(s) missing a week, name, position, or actual points.`);
+
+  const profile = await loadProfile();
+  const report = runBacktest(rows, { profile, topN: TOP_N });
+  printReport(report);
+
+  if (SEARCH) {
+    console.log("\nSearching for better weights...");
+    const search = searchWeights(rows, { profile });
+    console.log(`Training weeks (${search.trainWeeks}): rank correlation ${search.train.before} -> ${search.train.after}`);
+    if (search.holdout) {
+      console.log(`Held-out weeks (${search.holdoutWeeks}): rank correlation ${search.holdout.before} -> ${search.holdout.after}`);
+    } else {
+      console.log("Not enough weeks to hold any out; treat the gain as optimistic.");
+    }
+    const tuned = exportTunedProfile(search);
+    report.search = { ...search, profile: tuned, tunedReport: runBacktest(rows, { profile: tuned, topN: TOP_N }) };
+    if (EXPORT_PATH) {
+      await fs.writeFile(resolvePath(EXPORT_PATH), JSON.stringify(tuned, null, 2));
+      console.log(`Wrote tuned profile to ${resolvePath(EXPORT_PATH)} (import it from the dashboard's profile editor).`);
+    }
+  } else if (EXPORT_PATH) {
+    console.warn("--export only applies with --search; no profile written.");
+  }
+
+  if (REPORT_PATH) {
+    await fs.writeFile(resolvePath(REPORT_PATH), JSON.stringify(report, null, 2));
+    console.log(`Wrote report to ${resolvePath(REPORT_PATH)}`);
+  }
+}
+
+backtest().catch((err) => {
+  console.error("Backtest failed:", err);
+  process.exit(1);
+});
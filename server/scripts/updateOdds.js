@@ -0,0 +1,47 @@
+import { fileURLToPath } from "url";
+import { dirname, join, resolve, isAbsolute } from "path";
+import fs from "fs/promises";
+import fetch from "node-fetch";
+import { normalizeOddsFeed } from "../logic/odds.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const OUTPUT_PATH = join(__dirname, "..", "data", "odds.json");
+const SOURCE = process.argv.slice(2).find((arg) => !arg.startsWith("--")) || "";
+const SEASON_ARG = process.argv.find((arg) => arg.startsWith("--season="));
+
+async function updateOdds() {
+  if (!SOURCE) {
+    throw new Error(
+      "No odds source provided.\nPass a URL or file path (JSON or CSV with week, home, away, book, spread, total columns)."
+    );
+  }
+  console.log("Fetching odds from:", SOURCE);
+  let raw;
+  if (/^https?:\/\//i.test(SOURCE)) {
+    const res = await fetch(SOURCE);
+    if (!res.ok) {
+      throw new Error(`Odds source request failed with status ${res.status}`);
+    }
+    raw = await res.text();
+  } else {
+    const inputPath = isAbsolute(SOURCE) ? SOURCE : resolve(process.cwd(), SOURCE);
+    raw = await fs.readFile(inputPath, "utf8");
+  }
+
+  const feed = normalizeOddsFeed(raw);
+  if (!feed.lines.length) {
+    throw new Error("Provided source did not include any lines.");
+  }
+  const season = SEASON_ARG ? Number(SEASON_ARG.split("=")[1]) : feed.season;
+  const books = new Set(feed.lines.map((line) => line.book));
+
+  await fs.writeFile(OUTPUT_PATH, JSON.stringify({ season: season || null, lines: feed.lines }, null, 2));
+  console.log(`Wrote ${feed.lines.length} lines from ${books.size} books to ${OUTPUT_PATH}`);
+}
+
+updateOdds().catch((err) => {
+  console.error("Failed to update odds:", err);
+  process.exit(1);
+});
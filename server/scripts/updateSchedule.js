@@ -0,0 +1,44 @@
+import { fileURLToPath } from "url";
+import { dirname, join, resolve, isAbsolute } from "path";
+import fs from "fs/promises";
+import fetch from "node-fetch";
+import { normalizeSchedule } from "../logic/schedule.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const OUTPUT_PATH = join(__dirname, "..", "data", "schedule.json");
+const SOURCE = process.argv.slice(2).find((arg) => !arg.startsWith("--")) || "";
+const SEASON_ARG = process.argv.find((arg) => arg.startsWith("--season="));
+
+async function updateSchedule() {
+  if (!SOURCE) {
+    throw new Error("No schedule source provided.\nPass a URL or file path (JSON or CSV with week, home, away columns).");
+  }
+  console.log("Fetching schedule from:", SOURCE);
+  let raw;
+  if (/^https?:\/\//i.test(SOURCE)) {
+    const res = await fetch(SOURCE);
+    if (!res.ok) {
+      throw new Error(`Schedule source request failed with status ${res.status}`);
+    }
+    raw = await res.text();
+  } else {
+    const inputPath = isAbsolute(SOURCE) ? SOURCE : resolve(process.cwd(), SOURCE);
+    raw = await fs.readFile(inputPath, "utf8");
+  }
+
+  const schedule = normalizeSchedule(raw);
+  if (!schedule.games.length) {
+    throw new Error("Provided source did not include any games.");
+  }
+  const season = SEASON_ARG ? Number(SEASON_ARG.split("=")[1]) : schedule.season;
+
+  await fs.writeFile(OUTPUT_PATH, JSON.stringify({ season: season || null, games: schedule.games }, null, 2));
+  console.log(`Wrote ${schedule.games.length} games to ${OUTPUT_PATH}`);
+}
+
+updateSchedule().catch((err) => {
+  console.error("Failed to update schedule:", err);
+  process.exit(1);
+});
@@ -0,0 +1,80 @@
+import { isCoveredRoof, normalizeWeather } from "./weather.js";
+
+export const DEFAULT_TEAM_TOTAL = 22;
+export const DEFAULT_DEF_RANK = 16;
+export const DEFAULT_OVER_UNDER = 45;
+
+export const clamp = (value, min, max) => Math.min(Math.max(value, min), max);
+
+const PASSING_POSITIONS = new Set(["QB", "WR", "TE"]);
+
+const round = (value) => Number(value.toFixed(2));
+const signed = (value) => `${value > 0 ? "+" : ""}${value.toFixed(1)}`;
+
+/**
+ * Vegas, defensive matchup, and weather nudges applied on top of the bucket score.
+ * Each entry carries the points it moved the score so the UI can explain it.
+ */
+export function getContextAdjustments(player) {
+  const adjustments = [];
+  // Team defenses want low-scoring games and bad weather; kickers and defenses don't face a positional DEF rank.
+  const isDefense = player.position === "DST";
+  const usesDefRank = !isDefense && player.position !== "K";
+  const push = (key, label, delta) => {
+    if (!delta) return;
+    adjustments.push({ key, label, delta: round(delta) });
+  };
+
+  // No posted line leaves the team at the baseline, so the implied total moves nothing.
+  if (typeof player.impliedTotal === "number") {
+    const delta = clamp((player.impliedTotal - DEFAULT_TEAM_TOTAL) / 14, -1, 1);
+    push("implied", `Implied total ${player.impliedTotal} vs ${DEFAULT_TEAM_TOTAL} baseline`, delta * 8);
+  }
+
+  if (typeof player.overUnder === "number") {
+    const delta = clamp((player.overUnder - DEFAULT_OVER_UNDER) / 15, -1, 1);
+    const label = `Game total ${player.overUnder} vs ${DEFAULT_OVER_UNDER} baseline`;
+    push("overUnder", label, (isDefense ? -delta : delta) * 6);
+  }
+
+  if (typeof player.spread === "number") {
+    const favBonus = clamp(-player.spread / 10, -1, 1);
+    const label = favBonus >= 0 ? "Favorite bonus" : "Underdog penalty";
+    push("spread", `${label} (${signed(player.spread)})`, favBonus * 5);
+  }
+
+  if (usesDefRank && typeof player.defRank === "number") {
+    const delta = clamp((DEFAULT_DEF_RANK - player.defRank) / 10, -1, 1);
+    push("defense", `Opponent defense rank ${player.defRank}`, delta * 6);
+  }
+
+  const weather = normalizeWeather(player.weather);
+  if (!weather || isCoveredRoof(weather.roof, weather.rainChance)) return adjustments;
+
+  const rain = weather.rainChance;
+  if (!isDefense && typeof rain === "number") {
+    const penalty = rain > 70 ? 6 : rain > 40 ? 3 : 0;
+    push("rain", `Rain penalty (${rain}% chance)`, -penalty);
+  }
+
+  const tempF = weather.tempF;
+  if (typeof tempF === "number") {
+    if (tempF < 32) push("temperature", `Freezing temps (${tempF}F)`, -4);
+    else if (tempF > 90) push("temperature", `Extreme heat (${tempF}F)`, -2);
+  }
+
+  // Wind hurts kickers most, then the passing game; gusts past 30 mph count as a step worse.
+  const wind = weather.windMph;
+  const kicks = player.position === "K";
+  if ((kicks || PASSING_POSITIONS.has(player.position)) && typeof wind === "number") {
+    const severity = (wind >= 20 ? 2 : wind >= 15 ? 1 : 0) + ((weather.gustMph ?? 0) >= 30 ? 1 : 0);
+    const gusts = typeof weather.gustMph === "number" ? `, gusts ${weather.gustMph}` : "";
+    push("wind", `Wind penalty (${wind} mph${gusts})`, -severity * (kicks ? 2.5 : 1.5));
+  }
+
+  return adjustments;
+}
+
+export function applyContextAdjustments(score, player) {
+  return getContextAdjustments(player).reduce((total, adjustment) => total + adjustment.delta, score);
+}
@@ -0,0 +1,51 @@
+import { clamp } from "./context.js";
+
+export const DEFAULT_FAAB_BUDGET = 100;
+// Weeks 1-17 cover the fantasy regular season and playoffs; FAAB is worthless after that.
+export const FANTASY_SEASON_WEEKS = 17;
+
+// A perfect-score, top-at-position, heavily added player at even budget pace is worth this share of the league budget.
+const MAX_BUDGET_SHARE = 0.4;
+
+const toNumber = (value, fallback) => {
+  const num = Number(value);
+  return value === null || value === undefined || value === "" || !Number.isFinite(num) ? fallback : num;
+};
+
+/**
+ * Suggests an aggressive/median/minimum FAAB bid. The score and position rank set what the
+ * player is worth, Sleeper add volume sets how hard the league will compete, and budget pace
+ * (share of budget left over share of season left) sets how freely to spend.
+ */
+export function recommendFaabBid({
+  score,
+  positionRank = 1,
+  trendingAdds = 0,
+  remainingBudget,
+  totalBudget = DEFAULT_FAAB_BUDGET,
+  weeksLeft = FANTASY_SEASON_WEEKS
+}) {
+  const total = Math.max(toNumber(totalBudget, DEFAULT_FAAB_BUDGET), 0);
+  const budget = clamp(toNumber(remainingBudget, total), 0, total);
+  if (!budget || !Number.isFinite(score)) {
+    return { aggressive: 0, median: 0, minimum: 0, demand: 0 };
+  }
+
+  const value = clamp(score / 100, 0, 1);
+  const rankFactor = 1 / (1 + (Math.max(toNumber(positionRank, 1), 1) - 1) * 0.35);
+  // log10 scale: ~100 adds is a trickle, ~100k adds is the whole platform.
+  const demand = clamp(Math.log10(Math.max(toNumber(trendingAdds, 0), 0) + 1) / 5, 0, 1);
+  const seasonLeft = clamp(toNumber(weeksLeft, FANTASY_SEASON_WEEKS) / FANTASY_SEASON_WEEKS, 0.05, 1);
+  const pace = clamp(budget / total / seasonLeft, 0.5, 2);
+
+  // Fewer weeks left means fewer weeks of value, but unspent budget is worth even less.
+  const median =
+    total * MAX_BUDGET_SHARE * value ** 2 * rankFactor * (0.5 + 0.5 * demand) * pace * Math.sqrt(seasonLeft);
+  const bid = (amount) => Math.round(clamp(amount, 0, budget));
+  return {
+    aggressive: bid(median * (1.35 + 0.3 * demand)),
+    median: bid(median),
+    minimum: bid(median * 0.6),
+    demand: Number(demand.toFixed(2))
+  };
+}
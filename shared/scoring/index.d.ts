@@ -0,0 +1,260 @@
+export type ScoreBucket = "opportunity" | "efficiency" | "leverage" | "production";
+
+export type ViewMode = "WEEK" | "ROS";
+
+export type StatTransform = "invert" | "rank" | "lowTotal";
+
+export type StatRule = {
+  keywords: string[];
+  bucket: ScoreBucket;
+  weight: number;
+  normalize?: "percent" | "routes" | "yards";
+  transform?: StatTransform;
+  /** Limits the rule to these positions (after alias normalization). */
+  positions?: string[];
+};
+
+export type ScoringProfile = {
+  id: string;
+  name: string;
+  description?: string;
+  builtIn?: boolean;
+  /** Reception scoring the profile's projections are expressed in. */
+  scoringFormat: ScoringFormat;
+  statRules: StatRule[];
+  bucketWeights: Record<ScoreBucket, number>;
+  bucketNormalizers: Record<ScoreBucket, number>;
+  positionMultipliers: Record<string, number>;
+  /** Percent of the score removed for each injury designation. */
+  injuryDiscounts: Record<InjuryStatus, number>;
+};
+
+export type InjuryStatus = "Questionable" | "Doubtful" | "Out" | "IR";
+
+export type ScoringFormat = "ppr" | "half-ppr" | "standard";
+
+/** Projected fantasy points for one week in the profile's scoring format. */
+export type Projection = {
+  floor: number;
+  median: number;
+  ceiling: number;
+  format: ScoringFormat;
+};
+
+/** A same-position teammate listed ahead on the depth chart who is out. */
+export type OutTeammate = {
+  id: string;
+  fullName: string;
+  injuryStatus: string | null;
+  status: string | null;
+};
+
+/** Sleeper's injury and depth-chart fields for a player. */
+export type PlayerInjury = {
+  injuryStatus: string | null;
+  injuryBodyPart: string | null;
+  status: string | null;
+  depthChartPosition: string | null;
+  depthChartOrder: number | null;
+  opportunity: OutTeammate[];
+};
+
+export type RoofType = "dome" | "retractable" | "open";
+
+/** Forecast for the game's kickoff hour at the host stadium. */
+export type GameWeather = {
+  roof: RoofType | null;
+  kickoff: string | null;
+  tempF: number | null;
+  rainChance: number | null;
+  windMph: number | null;
+  gustMph: number | null;
+};
+
+/** One remaining week for the player's team; `opponent` is null on a bye. */
+export type ScheduleGame = {
+  week: number;
+  opponent: string | null;
+  homeAway?: "home" | "away" | null;
+  /** Opponent's defense rank against the player's position (1 = stingiest). */
+  defRank?: number | null;
+};
+
+export type ScheduleSummary = {
+  games: number;
+  averageDefRank: number;
+  playoffDefRank: number | null;
+};
+
+/** The subset of a board player the engine reads. */
+export type ScoringInput = {
+  position: string;
+  stats?: Record<string, number>;
+  /** Null or missing without a posted line, which scores as the DEFAULT_TEAM_TOTAL baseline. */
+  impliedTotal?: number | null;
+  overUnder?: number | null;
+  spread?: number | null;
+  defRank?: number | null;
+  /** Legacy "72F / 10% rain" strings are still accepted. */
+  weather?: GameWeather | string | null;
+  /** Remaining schedule, read by the ROS view. */
+  rosSchedule?: ScheduleGame[] | null;
+  /** Sleeper injury designation; Questionable/Doubtful/Out/IR discount the score per the profile. */
+  injury?: Partial<PlayerInjury> | null;
+};
+
+export type ScoringOptions = {
+  viewMode?: ViewMode;
+  profile?: ScoringProfile;
+  /** How many times fantasy playoff weeks count in the ROS schedule average (1 = no extra weight). */
+  playoffWeight?: number;
+};
+
+export type BucketBreakdown = {
+  raw: number;
+  normalized: number;
+  weight: number;
+  points: number;
+};
+
+export type RuleMatch = {
+  stat: string;
+  value: number;
+  bucket: ScoreBucket;
+  weight: number;
+  contribution: number;
+};
+
+export type FaabBidInput = {
+  score: number;
+  /** 1 = best player at the position on the board. */
+  positionRank?: number;
+  /** Sleeper adds over the last day. */
+  trendingAdds?: number;
+  remainingBudget?: number | null;
+  totalBudget?: number | null;
+  weeksLeft?: number | null;
+};
+
+export type FaabBid = {
+  aggressive: number;
+  median: number;
+  minimum: number;
+  /** 0-1 competition estimate from add volume. */
+  demand: number;
+};
+
+export type RosterSlot = "QB" | "RB" | "WR" | "TE" | "K" | "DEF" | "FLEX" | "WRRB_FLEX" | "REC_FLEX" | "SUPER_FLEX";
+
+export type LineupPlayer = {
+  position: string;
+  score?: number;
+};
+
+export type Lineup<T extends LineupPlayer> = {
+  starters: Array<{ slot: RosterSlot; player: T | null }>;
+  bench: T[];
+  total: number;
+  emptySlots: number;
+};
+
+export type AddDropPair<T extends LineupPlayer> = {
+  add: T;
+  drop: T;
+  scoreGain: number;
+  lineupBefore: number;
+  lineupAfter: number;
+  lineupDelta: number;
+};
+
+export type AdjustmentKey = "implied" | "overUnder" | "spread" | "defense" | "rain" | "temperature" | "wind" | "ros" | "schedule" | "injury";
+
+export type ScoreAdjustment = {
+  key: AdjustmentKey;
+  label: string;
+  delta: number;
+};
+
+export type ScoreBreakdown = {
+  score: number;
+  viewMode: ViewMode;
+  profileId: string;
+  baseScore: number;
+  positionMultiplier: number;
+  buckets: Record<ScoreBucket, BucketBreakdown>;
+  rules: RuleMatch[];
+  adjustments: ScoreAdjustment[];
+};
+
+export declare const SCORE_BUCKETS: ScoreBucket[];
+export declare const STAT_TRANSFORMS: Record<StatTransform, (value: number) => number>;
+export declare const STAT_RULES: StatRule[];
+export declare const POSITION_ALIASES: Record<string, string>;
+export declare function normalizePosition(position?: string | null): string;
+export declare const POSITION_MULTIPLIERS: Record<string, number>;
+export declare const BUCKET_WEIGHTS: Record<ScoreBucket, number>;
+export declare const BUCKET_NORMALIZERS: Record<ScoreBucket, number>;
+
+export declare const DEFAULT_PROFILE: ScoringProfile;
+export declare const BUILT_IN_PROFILES: ScoringProfile[];
+export declare function findProfile(profiles: ScoringProfile[], id: string): ScoringProfile | null;
+export declare function normalizeProfile(raw: unknown): { profile: ScoringProfile | null; errors: string[] };
+
+export declare const DEFAULT_TEAM_TOTAL: number;
+export declare const DEFAULT_DEF_RANK: number;
+export declare const DEFAULT_OVER_UNDER: number;
+
+export declare function clamp(value: number, min: number, max: number): number;
+export declare function getContextAdjustments(player: ScoringInput): ScoreAdjustment[];
+export declare function applyContextAdjustments(score: number, player: ScoringInput): number;
+export declare const ROOF_TYPES: RoofType[];
+export declare const RETRACTABLE_CLOSE_RAIN: number;
+export declare function isCoveredRoof(roof?: RoofType | null, rainChance?: number | null): boolean;
+export declare function normalizeWeather(value: unknown): GameWeather | null;
+export declare function formatWeather(value: unknown): string;
+export declare const FANTASY_PLAYOFF_WEEKS: number[];
+export declare function summarizeSchedule(
+  games: ScheduleGame[] | null | undefined,
+  options?: { playoffWeight?: number }
+): ScheduleSummary | null;
+export declare function getScheduleAdjustment(
+  games: ScheduleGame[] | null | undefined,
+  options?: { playoffWeight?: number }
+): ScoreAdjustment | null;
+export declare const DEFAULT_FAAB_BUDGET: number;
+export declare const FANTASY_SEASON_WEEKS: number;
+export declare function recommendFaabBid(input: FaabBidInput): FaabBid;
+export declare const SLOT_ELIGIBILITY: Record<RosterSlot, string[]>;
+export declare const DEFAULT_ROSTER_SLOTS: RosterSlot[];
+export declare function normalizeRosterSlots(slots?: string[] | null): RosterSlot[];
+export declare function optimizeLineup<T extends LineupPlayer>(players: T[], slots?: string[]): Lineup<T>;
+export declare function recommendAddDrops<T extends LineupPlayer>(
+  roster: T[],
+  targets: T[],
+  options?: { slots?: string[]; limit?: number }
+): Array<AddDropPair<T>>;
+export declare const INJURY_STATUSES: InjuryStatus[];
+export declare const INJURY_DISCOUNTS: Record<InjuryStatus, number>;
+export declare function normalizeInjuryStatus(value: unknown): InjuryStatus | null;
+export declare function isOutStatus(status: unknown): boolean;
+export declare function getInjuryAdjustment(
+  injury: Partial<PlayerInjury> | null | undefined,
+  score: number,
+  discounts?: Partial<Record<InjuryStatus, number>>
+): ScoreAdjustment | null;
+export declare const SCORING_FORMATS: ScoringFormat[];
+export declare const PROJECTION_BASELINES: Record<string, { replacement: number; perScore: number; volatility: number }>;
+export declare function scoringFormatFor(profile?: Partial<ScoringProfile> | null): ScoringFormat;
+export declare function projectPoints(
+  player: ScoringInput,
+  breakdown: ScoreBreakdown | null | undefined,
+  profile?: Partial<ScoringProfile> | null
+): Projection;
+export declare function normalizeStatValue(value: number, mode?: StatRule["normalize"]): number;
+export declare function findStatRule(statKey: string, rules?: StatRule[], position?: string | null): StatRule | null;
+export declare function explainScore(player: ScoringInput, options?: ScoringOptions): ScoreBreakdown;
+export declare function calcScore(player: ScoringInput, options?: ScoringOptions): number;
+export declare function scorePlayers<T extends ScoringInput>(
+  players: T[],
+  options?: ScoringOptions
+): Array<T & { score: number; breakdown: ScoreBreakdown }>;
@@ -0,0 +1,139 @@
+import { SCORE_BUCKETS, STAT_TRANSFORMS, normalizePosition } from "./rules.js";
+import { clamp, getContextAdjustments } from "./context.js";
+import { DEFAULT_PROFILE } from "./profiles.js";
+import { getScheduleAdjustment } from "./schedule.js";
+import { getInjuryAdjustment } from "./injury.js";
+
+export * from "./rules.js";
+export * from "./context.js";
+export * from "./profiles.js";
+export * from "./weather.js";
+export * from "./schedule.js";
+export * from "./faab.js";
+export * from "./lineup.js";
+export * from "./injury.js";
+export * from "./projection.js";
+
+export const normalizeStatValue = (value, mode) => {
+  if (!Number.isFinite(value)) return 0;
+  if (mode === "percent") {
+    return value > 1 ? value / 100 : value;
+  }
+  if (mode === "routes") {
+    return value / 10;
+  }
+  if (mode === "yards") {
+    return value / 10;
+  }
+  return value;
+};
+
+export function findStatRule(statKey, rules = DEFAULT_PROFILE.statRules, position = null) {
+  const lowerKey = statKey.toLowerCase();
+  return (
+    rules.find(
+      (rule) =>
+        (!rule.positions || rule.positions.includes(position)) &&
+        rule.keywords.some((keyword) => lowerKey.includes(keyword))
+    ) || null
+  );
+}
+
+const round = (value) => Number(value.toFixed(2));
+
+/**
+ * Scores a player and returns every intermediate number: bucket totals, the stat rules
+ * that fed them, and the context adjustments layered on top.
+ */
+export function explainScore(player, options = {}) {
+  const viewMode = options.viewMode || "WEEK";
+  const profile = options.profile || DEFAULT_PROFILE;
+  const position = normalizePosition(player.position);
+  const st = player.stats || {};
+  const rawBuckets = {
+    opportunity: 0,
+    efficiency: 0,
+    leverage: 0,
+    production: 0
+  };
+  const rules = [];
+
+  Object.entries(st).forEach(([key, rawVal]) => {
+    const val = Number(rawVal);
+    if (!Number.isFinite(val)) return;
+    const rule = findStatRule(key, profile.statRules, position);
+    if (!rule) return;
+    const normalized = normalizeStatValue(val, rule.normalize);
+    const transform = rule.transform ? STAT_TRANSFORMS[rule.transform] : null;
+    const derived = transform ? transform(normalized) : normalized;
+    const contribution = derived * rule.weight;
+    rawBuckets[rule.bucket] += contribution;
+    rules.push({
+      stat: key,
+      value: val,
+      bucket: rule.bucket,
+      weight: rule.weight,
+      contribution: round(contribution)
+    });
+  });
+
+  const buckets = {};
+  const bucketScore = SCORE_BUCKETS.reduce((total, bucketKey) => {
+    const raw = rawBuckets[bucketKey];
+    const normalized = clamp(raw / profile.bucketNormalizers[bucketKey], 0, 1);
+    const points = normalized * profile.bucketWeights[bucketKey];
+    buckets[bucketKey] = {
+      raw: round(raw),
+      normalized: round(normalized),
+      weight: profile.bucketWeights[bucketKey],
+      points: round(points)
+    };
+    return total + points;
+  }, 0);
+
+  const positionMultiplier = profile.positionMultipliers[position] ?? 1;
+  const baseScore = bucketScore * positionMultiplier;
+  const adjustments = getContextAdjustments({ ...player, position });
+  let score = adjustments.reduce((total, adjustment) => total + adjustment.delta, baseScore);
+
+  if (viewMode === "ROS") {
+    const rosScore = score * 0.8 + clamp(rawBuckets.production / 80, 0, 1) * 20;
+    adjustments.push({ key: "ros", label: "Rest-of-season production blend", delta: round(rosScore - score) });
+    score = rosScore;
+    const schedule = getScheduleAdjustment(player.rosSchedule, { playoffWeight: options.playoffWeight ?? 1 });
+    if (schedule) {
+      adjustments.push(schedule);
+      score += schedule.delta;
+    }
+  }
+
+  // The injury discount goes last so it scales the full context-adjusted score.
+  const injury = getInjuryAdjustment(player.injury, score, profile.injuryDiscounts);
+  if (injury) {
+    adjustments.push(injury);
+    score += injury.delta;
+  }
+
+  const finalScore = Number.isFinite(score) ? Number(clamp(score, 0, 100).toFixed(1)) : 0;
+  return {
+    score: finalScore,
+    viewMode,
+    profileId: profile.id,
+    baseScore: round(baseScore),
+    positionMultiplier,
+    buckets,
+    rules,
+    adjustments
+  };
+}
+
+export function calcScore(player, options = {}) {
+  return explainScore(player, options).score;
+}
+
+export function scorePlayers(players, options = {}) {
+  return players.map((player) => {
+    const breakdown = explainScore(player, options);
+    return { ...player, score: breakdown.score, breakdown };
+  });
+}
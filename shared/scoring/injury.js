@@ -0,0 +1,42 @@
+export const INJURY_STATUSES = ["Questionable", "Doubtful", "Out", "IR"];
+
+// Share of the score (in percent) each designation removes. Profiles can override these.
+export const INJURY_DISCOUNTS = { Questionable: 10, Doubtful: 40, Out: 100, IR: 100 };
+
+// Sleeper's injury_status values plus the usual report shorthand.
+const STATUS_ALIASES = {
+  Q: "Questionable",
+  QUESTIONABLE: "Questionable",
+  D: "Doubtful",
+  DOUBTFUL: "Doubtful",
+  O: "Out",
+  OUT: "Out",
+  SUS: "Out",
+  IR: "IR",
+  PUP: "IR",
+  NFI: "IR"
+};
+
+export function normalizeInjuryStatus(value) {
+  if (typeof value !== "string") return null;
+  return STATUS_ALIASES[value.trim().toUpperCase()] || null;
+}
+
+export const isOutStatus = (status) => {
+  const normalized = normalizeInjuryStatus(status);
+  return normalized === "Out" || normalized === "IR";
+};
+
+/** Discounts the score by the profile's percentage for the player's injury designation. */
+export function getInjuryAdjustment(injury, score, discounts = INJURY_DISCOUNTS) {
+  const status = normalizeInjuryStatus(injury?.injuryStatus);
+  if (!status || !(score > 0)) return null;
+  const percent = Math.min(Math.max(Number(discounts?.[status] ?? INJURY_DISCOUNTS[status]) || 0, 0), 100);
+  if (!percent) return null;
+  const bodyPart = injury.injuryBodyPart ? ` (${injury.injuryBodyPart})` : "";
+  return {
+    key: "injury",
+    label: `${status}${bodyPart}: -${percent}%`,
+    delta: Number((-score * (percent / 100)).toFixed(2))
+  };
+}
@@ -0,0 +1,112 @@
+import { normalizePosition } from "./rules.js";
+
+// Sleeper roster slot names and the positions each one accepts.
+export const SLOT_ELIGIBILITY = {
+  QB: ["QB"],
+  RB: ["RB"],
+  WR: ["WR"],
+  TE: ["TE"],
+  K: ["K"],
+  DEF: ["DST"],
+  FLEX: ["RB", "WR", "TE"],
+  WRRB_FLEX: ["RB", "WR"],
+  REC_FLEX: ["WR", "TE"],
+  SUPER_FLEX: ["QB", "RB", "WR", "TE"]
+};
+
+export const DEFAULT_ROSTER_SLOTS = ["QB", "RB", "RB", "WR", "WR", "TE", "FLEX", "K", "DEF"];
+
+const round = (value) => Number(value.toFixed(2));
+const scoreOf = (player) => (Number.isFinite(player?.score) ? player.score : 0);
+
+/** Keeps the starting slots the optimizer understands; bench, IR, taxi, and IDP slots are dropped. */
+export function normalizeRosterSlots(slots) {
+  const normalized = (slots || [])
+    .map((slot) => {
+      const upper = String(slot || "").trim().toUpperCase();
+      return upper === "DST" || upper === "D/ST" ? "DEF" : upper;
+    })
+    .filter((slot) => SLOT_ELIGIBILITY[slot]);
+  return normalized.length ? normalized : [...DEFAULT_ROSTER_SLOTS];
+}
+
+/**
+ * Picks the starting lineup with the highest total score. Players are taken best first, and each
+ * one starts if the lineup so far can be reshuffled to make room (an augmenting path over the
+ * slots); for slot eligibility this greedy order is exact, unlike filling slot by slot.
+ */
+export function optimizeLineup(players, slots = DEFAULT_ROSTER_SLOTS) {
+  const slotList = normalizeRosterSlots(slots);
+  const pool = [...(players || [])].sort((a, b) => scoreOf(b) - scoreOf(a));
+  const filled = new Array(slotList.length).fill(null);
+  // Narrow slots are tried first so a WR lands in a WR slot before a flex one.
+  const slotOrder = slotList
+    .map((_, index) => index)
+    .sort((a, b) => SLOT_ELIGIBILITY[slotList[a]].length - SLOT_ELIGIBILITY[slotList[b]].length);
+
+  const fits = (player, index) => SLOT_ELIGIBILITY[slotList[index]].includes(normalizePosition(player.position));
+  const place = (player, visited) => {
+    for (const index of slotOrder) {
+      if (visited.has(index) || !fits(player, index)) continue;
+      visited.add(index);
+      if (!filled[index] || place(filled[index], visited)) {
+        filled[index] = player;
+        return true;
+      }
+    }
+    return false;
+  };
+  pool.forEach((player) => place(player, new Set()));
+
+  // Reshuffling can leave a better player in a flex slot; swap them back where both slots allow it.
+  slotOrder.forEach((narrow, i) => {
+    slotOrder.slice(i + 1).forEach((wide) => {
+      const [a, b] = [filled[narrow], filled[wide]];
+      if (a && b && scoreOf(b) > scoreOf(a) && fits(b, narrow) && fits(a, wide)) {
+        filled[narrow] = b;
+        filled[wide] = a;
+      }
+    });
+  });
+  const used = new Set(filled.filter(Boolean));
+
+  const starters = slotList.map((slot, index) => ({ slot, player: filled[index] }));
+  return {
+    starters,
+    bench: pool.filter((player) => !used.has(player)),
+    total: round(starters.reduce((sum, starter) => sum + scoreOf(starter.player), 0)),
+    emptySlots: starters.filter((starter) => !starter.player).length
+  };
+}
+
+/**
+ * Pairs each waiver target with the weakest roster player it outscores whose loss leaves no
+ * starting slot unfilled, and reports how the optimized starting lineup total would move.
+ */
+export function recommendAddDrops(roster, targets, { slots = DEFAULT_ROSTER_SLOTS, limit = 5 } = {}) {
+  const current = optimizeLineup(roster, slots);
+  const pairs = [];
+
+  (targets || []).forEach((add) => {
+    const drops = (roster || [])
+      .filter((drop) => scoreOf(drop) < scoreOf(add))
+      .sort((a, b) => scoreOf(a) - scoreOf(b));
+    for (const drop of drops) {
+      const next = optimizeLineup([...roster.filter((player) => player !== drop), add], slots);
+      if (next.emptySlots > current.emptySlots) continue;
+      pairs.push({
+        add,
+        drop,
+        scoreGain: round(scoreOf(add) - scoreOf(drop)),
+        lineupBefore: current.total,
+        lineupAfter: next.total,
+        lineupDelta: round(next.total - current.total)
+      });
+      break;
+    }
+  });
+
+  return pairs
+    .sort((a, b) => b.lineupDelta - a.lineupDelta || b.scoreGain - a.scoreGain)
+    .slice(0, limit);
+}
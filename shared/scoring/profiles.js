@@ -0,0 +1,220 @@
+import {
+  BUCKET_NORMALIZERS,
+  BUCKET_WEIGHTS,
+  POSITION_MULTIPLIERS,
+  SCORE_BUCKETS,
+  STAT_RULES,
+  STAT_TRANSFORMS,
+  normalizePosition
+} from "./rules.js";
+import { INJURY_DISCOUNTS, INJURY_STATUSES } from "./injury.js";
+import { SCORING_FORMATS } from "./projection.js";
+
+const NORMALIZE_MODES = ["percent", "routes", "yards"];
+
+const cloneRules = (rules) =>
+  rules.map((rule) => ({
+    ...rule,
+    keywords: [...rule.keywords],
+    ...(rule.positions ? { positions: [...rule.positions] } : {})
+  }));
+
+/** Copies a profile, scaling the weight of every rule whose first keyword appears in `ruleScales`. */
+function deriveProfile(
+  base,
+  { id, name, description, scoringFormat = base.scoringFormat, ruleScales = {}, positionMultipliers = {} }
+) {
+  return {
+    id,
+    name,
+    description,
+    builtIn: true,
+    scoringFormat,
+    statRules: cloneRules(base.statRules).map((rule) => {
+      const scale = ruleScales[rule.keywords[0]] ?? 1;
+      return { ...rule, weight: Number((rule.weight * scale).toFixed(3)) };
+    }),
+    bucketWeights: { ...base.bucketWeights },
+    bucketNormalizers: { ...base.bucketNormalizers },
+    positionMultipliers: { ...base.positionMultipliers, ...positionMultipliers },
+    injuryDiscounts: { ...base.injuryDiscounts }
+  };
+}
+
+export const DEFAULT_PROFILE = {
+  id: "ppr",
+  name: "PPR",
+  description: "Full point per reception, one starting QB.",
+  builtIn: true,
+  scoringFormat: "ppr",
+  statRules: cloneRules(STAT_RULES),
+  bucketWeights: { ...BUCKET_WEIGHTS },
+  bucketNormalizers: { ...BUCKET_NORMALIZERS },
+  positionMultipliers: { ...POSITION_MULTIPLIERS },
+  injuryDiscounts: { ...INJURY_DISCOUNTS }
+};
+
+// Catch-driven stats lose value as the reception bonus shrinks; rushers and red-zone roles gain it back.
+export const BUILT_IN_PROFILES = [
+  DEFAULT_PROFILE,
+  deriveProfile(DEFAULT_PROFILE, {
+    id: "half-ppr",
+    name: "Half-PPR",
+    description: "Half point per reception, one starting QB.",
+    scoringFormat: "half-ppr",
+    ruleScales: {
+      "targets per route run": 0.87,
+      "targets (last": 0.85,
+      "catchable targets": 0.8,
+      "ppr (last": 0.85
+    },
+    positionMultipliers: { RB: 1.06, WR: 0.98, TE: 0.9 }
+  }),
+  deriveProfile(DEFAULT_PROFILE, {
+    id: "standard",
+    name: "Standard",
+    description: "No reception points, one starting QB.",
+    scoringFormat: "standard",
+    ruleScales: {
+      "targets per route run": 0.73,
+      "targets (last": 0.7,
+      "catchable targets": 0.6,
+      "ppr (last": 0.7,
+      "ez targets": 1.15,
+      "red zone": 1.2
+    },
+    positionMultipliers: { RB: 1.1, WR: 0.96, TE: 0.86 }
+  }),
+  deriveProfile(DEFAULT_PROFILE, {
+    id: "superflex",
+    name: "Superflex",
+    description: "Full PPR with a second QB-eligible starting spot.",
+    positionMultipliers: { QB: 1.22 }
+  })
+];
+
+export function findProfile(profiles, id) {
+  return profiles.find((profile) => profile.id === id) || null;
+}
+
+const isPlainObject = (value) => Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+function readNumberMap(source, keys, fallback, label, errors) {
+  const result = { ...fallback };
+  if (source === undefined) return result;
+  if (!isPlainObject(source)) {
+    errors.push(`${label} must be an object.`);
+    return result;
+  }
+  Object.entries(source).forEach(([key, value]) => {
+    const num = Number(value);
+    if (keys && !keys.includes(key)) {
+      errors.push(`${label} has unknown key "${key}".`);
+    } else if (!Number.isFinite(num) || num < 0) {
+      errors.push(`${label}.${key} must be a non-negative number.`);
+    } else {
+      result[key] = num;
+    }
+  });
+  return result;
+}
+
+function readRules(source, errors) {
+  if (source === undefined) return cloneRules(DEFAULT_PROFILE.statRules);
+  if (!Array.isArray(source)) {
+    errors.push("statRules must be an array.");
+    return cloneRules(DEFAULT_PROFILE.statRules);
+  }
+  const rules = [];
+  source.forEach((rule, index) => {
+    const label = `statRules[${index}]`;
+    const keywords = Array.isArray(rule?.keywords)
+      ? rule.keywords.filter((keyword) => typeof keyword === "string" && keyword.trim()).map((k) => k.toLowerCase())
+      : [];
+    const weight = Number(rule?.weight);
+    if (!keywords.length) return errors.push(`${label} needs at least one keyword.`);
+    if (!SCORE_BUCKETS.includes(rule.bucket)) return errors.push(`${label} has unknown bucket "${rule.bucket}".`);
+    if (!Number.isFinite(weight)) return errors.push(`${label} weight must be a number.`);
+    if (rule.normalize !== undefined && !NORMALIZE_MODES.includes(rule.normalize)) {
+      return errors.push(`${label} has unknown normalize mode "${rule.normalize}".`);
+    }
+    if (rule.transform !== undefined && !Object.hasOwn(STAT_TRANSFORMS, rule.transform)) {
+      return errors.push(`${label} has unknown transform "${rule.transform}".`);
+    }
+    const next = { keywords, bucket: rule.bucket, weight };
+    if (rule.normalize) next.normalize = rule.normalize;
+    if (rule.transform) next.transform = rule.transform;
+    if (Array.isArray(rule.positions) && rule.positions.length) {
+      next.positions = rule.positions.map(normalizePosition);
+    }
+    rules.push(next);
+  });
+  return rules;
+}
+
+/**
+ * Validates an imported or hand-edited profile. Missing sections fall back to the PPR defaults;
+ * anything malformed is reported in `errors` and left at its default.
+ */
+export function normalizeProfile(raw) {
+  const errors = [];
+  if (!isPlainObject(raw)) {
+    return { profile: null, errors: ["Profile must be a JSON object."] };
+  }
+  const name = typeof raw.name === "string" && raw.name.trim() ? raw.name.trim() : null;
+  if (!name) errors.push("Profile needs a name.");
+  const id =
+    typeof raw.id === "string" && raw.id.trim()
+      ? raw.id.trim()
+      : (name || "profile").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+
+  let scoringFormat = DEFAULT_PROFILE.scoringFormat;
+  if (raw.scoringFormat !== undefined) {
+    if (SCORING_FORMATS.includes(raw.scoringFormat)) scoringFormat = raw.scoringFormat;
+    else errors.push(`scoringFormat must be one of: ${SCORING_FORMATS.join(", ")}.`);
+  }
+
+  const profile = {
+    id,
+    name: name || id,
+    description: typeof raw.description === "string" ? raw.description : "",
+    builtIn: false,
+    scoringFormat,
+    statRules: readRules(raw.statRules, errors),
+    bucketWeights: readNumberMap(raw.bucketWeights, SCORE_BUCKETS, DEFAULT_PROFILE.bucketWeights, "bucketWeights", errors),
+    bucketNormalizers: readNumberMap(
+      raw.bucketNormalizers,
+      SCORE_BUCKETS,
+      DEFAULT_PROFILE.bucketNormalizers,
+      "bucketNormalizers",
+      errors
+    ),
+    positionMultipliers: readNumberMap(
+      raw.positionMultipliers,
+      null,
+      DEFAULT_PROFILE.positionMultipliers,
+      "positionMultipliers",
+      errors
+    ),
+    injuryDiscounts: readNumberMap(
+      raw.injuryDiscounts,
+      INJURY_STATUSES,
+      DEFAULT_PROFILE.injuryDiscounts,
+      "injuryDiscounts",
+      errors
+    )
+  };
+  INJURY_STATUSES.forEach((status) => {
+    if (profile.injuryDiscounts[status] > 100) {
+      errors.push(`injuryDiscounts.${status} is a percentage and cannot exceed 100.`);
+      profile.injuryDiscounts[status] = DEFAULT_PROFILE.injuryDiscounts[status];
+    }
+  });
+  SCORE_BUCKETS.forEach((bucket) => {
+    if (!(profile.bucketNormalizers[bucket] > 0)) {
+      errors.push(`bucketNormalizers.${bucket} must be greater than zero.`);
+      profile.bucketNormalizers[bucket] = DEFAULT_PROFILE.bucketNormalizers[bucket];
+    }
+  });
+  return { profile, errors };
+}
@@ -0,0 +1,90 @@
+import { DEFAULT_OVER_UNDER, DEFAULT_TEAM_TOTAL, clamp } from "./context.js";
+import { isOutStatus, normalizeInjuryStatus } from "./injury.js";
+import { SCORE_BUCKETS, normalizePosition } from "./rules.js";
+
+export const SCORING_FORMATS = ["ppr", "half-ppr", "standard"];
+
+// Weekly points at a score of 0 (a replacement-level starter) and per score point above it, in PPR.
+// Volatility is the share of the median a typical week swings; pass catchers and defenses swing most.
+export const PROJECTION_BASELINES = {
+  QB: { replacement: 8, perScore: 0.2, volatility: 0.3 },
+  RB: { replacement: 3, perScore: 0.22, volatility: 0.45 },
+  WR: { replacement: 2, perScore: 0.22, volatility: 0.5 },
+  TE: { replacement: 1.5, perScore: 0.18, volatility: 0.55 },
+  K: { replacement: 4, perScore: 0.1, volatility: 0.35 },
+  DST: { replacement: 2, perScore: 0.12, volatility: 0.6 }
+};
+
+// Share of PPR output each format keeps; receptions make up more of a pass catcher's points.
+const FORMAT_SCALES = {
+  ppr: {},
+  "half-ppr": { RB: 0.9, WR: 0.85, TE: 0.85 },
+  standard: { RB: 0.8, WR: 0.7, TE: 0.7 }
+};
+
+const VEGAS_KEYS = new Set(["implied", "overUnder", "spread"]);
+// Season-long view adjustments; a weekly projection ignores them.
+const VIEW_KEYS = new Set(["ros", "schedule"]);
+// Extra swing for a questionable tag or a stat line too thin to trust.
+const INJURY_VOLATILITY = 0.15;
+const THIN_STATS_VOLATILITY = 0.1;
+const THIN_STATS_RULES = 3;
+
+export const scoringFormatFor = (profile) =>
+  SCORING_FORMATS.includes(profile?.scoringFormat) ? profile.scoringFormat : "ppr";
+
+const round1 = (value) => Number(value.toFixed(1));
+
+// Offenses scale with their implied total; defenses with how low the game total is.
+function vegasFactor(player, position) {
+  if (position === "DST") {
+    return typeof player.overUnder === "number" && player.overUnder > 0
+      ? clamp(DEFAULT_OVER_UNDER / player.overUnder, 0.8, 1.2)
+      : 1;
+  }
+  return typeof player.impliedTotal === "number" ? clamp(player.impliedTotal / DEFAULT_TEAM_TOTAL, 0.7, 1.3) : 1;
+}
+
+/**
+ * Converts a score breakdown into projected fantasy points for the profile's scoring format.
+ * Skill comes from the raw bucket points plus the weekly defense and weather adjustments, so the
+ * profile's position multiplier (a draft-value tilt) and the ROS view never change the points.
+ * Vegas then scales it as a multiplier and the injury discount as a percentage, so those aren't
+ * counted twice.
+ */
+export function projectPoints(player, breakdown, profile) {
+  const format = scoringFormatFor(profile);
+  const position = normalizePosition(player.position);
+  const status = normalizeInjuryStatus(player.injury?.injuryStatus);
+  if (!breakdown || isOutStatus(status)) {
+    return { floor: 0, median: 0, ceiling: 0, format };
+  }
+
+  const baseline = PROJECTION_BASELINES[position] || PROJECTION_BASELINES.WR;
+  let contextDelta = 0;
+  let injuryDelta = 0;
+  breakdown.adjustments.forEach((adjustment) => {
+    if (adjustment.key === "injury") injuryDelta += adjustment.delta;
+    else if (!VEGAS_KEYS.has(adjustment.key) && !VIEW_KEYS.has(adjustment.key)) contextDelta += adjustment.delta;
+  });
+  const bucketPoints = SCORE_BUCKETS.reduce((total, bucket) => total + breakdown.buckets[bucket].points, 0);
+  const skill = clamp(bucketPoints + contextDelta, 0, 100);
+  // The injury discount is a share of the score it was applied to.
+  const beforeInjury = breakdown.score - injuryDelta;
+  const injuryShare = beforeInjury > 0 ? clamp(1 + injuryDelta / beforeInjury, 0, 1) : 1;
+  const formatScale = FORMAT_SCALES[format][position] ?? 1;
+  const median =
+    (baseline.replacement + baseline.perScore * skill) * vegasFactor(player, position) * formatScale * injuryShare;
+
+  let volatility = baseline.volatility;
+  if (status) volatility += INJURY_VOLATILITY;
+  if (breakdown.rules.length < THIN_STATS_RULES) volatility += THIN_STATS_VOLATILITY;
+
+  // Fantasy weeks skew right: a bad week bottoms out near zero, a big one runs long.
+  return {
+    floor: round1(Math.max(median * (1 - volatility), 0)),
+    median: round1(median),
+    ceiling: round1(median * (1 + volatility * 1.4)),
+    format
+  };
+}
@@ -0,0 +1,103 @@
+export const SCORE_BUCKETS = ["opportunity", "efficiency", "leverage", "production"];
+
+// Transforms are referenced by name so rules survive a JSON round trip inside scoring profiles.
+export const STAT_TRANSFORMS = {
+  invert: (val) => 1 - val,
+  rank: (val) => Math.max(0, 1 - val / 100),
+  // Point totals where fewer is better: 15 or less is a full credit, 30+ earns nothing.
+  lowTotal: (val) => Math.min(Math.max((30 - val) / 15, 0), 1)
+};
+
+// Sleeper and ESPN label kickers and team defenses differently; score them under one key.
+export const POSITION_ALIASES = {
+  PK: "K",
+  DEF: "DST",
+  "D/ST": "DST"
+};
+
+export const normalizePosition = (position) => {
+  const upper = String(position || "").trim().toUpperCase();
+  return POSITION_ALIASES[upper] || upper;
+};
+
+// Rules are matched against the lower-cased stat label; the first matching rule wins.
+// Rules with `positions` only apply to those positions, so they sit ahead of the generic ones,
+// and a narrower label goes before any broader one it contains ("50+ yard fg attempts").
+export const STAT_RULES = [
+  { keywords: ["50+ yard"], bucket: "leverage", weight: 8, positions: ["K"] },
+  { keywords: ["fg attempts"], bucket: "opportunity", weight: 12, positions: ["K"] },
+  { keywords: ["extra point"], bucket: "opportunity", weight: 4, positions: ["K"] },
+  { keywords: ["team implied total"], bucket: "opportunity", weight: 2.5, positions: ["K"] },
+  { keywords: ["fg made %"], bucket: "efficiency", weight: 100, normalize: "percent", positions: ["K"] },
+  { keywords: ["dome game"], bucket: "leverage", weight: 25, positions: ["K"] },
+  {
+    keywords: ["opponent implied total"],
+    bucket: "opportunity",
+    weight: 90,
+    transform: "lowTotal",
+    positions: ["DST"]
+  },
+  {
+    keywords: ["pressure rate allowed"],
+    bucket: "opportunity",
+    weight: 100,
+    normalize: "percent",
+    positions: ["DST"]
+  },
+  { keywords: ["sacks"], bucket: "efficiency", weight: 6, positions: ["DST"] },
+  { keywords: ["turnovers"], bucket: "efficiency", weight: 10, positions: ["DST"] },
+  { keywords: ["targets per route run", "tprr"], bucket: "efficiency", weight: 55, normalize: "percent" },
+  { keywords: ["yards per route run"], bucket: "efficiency", weight: 8, normalize: "yards" },
+  { keywords: ["epa per play"], bucket: "efficiency", weight: 2.5 },
+  { keywords: ["completion %"], bucket: "efficiency", weight: 1.2, normalize: "percent" },
+  {
+    keywords: ["pressure rate"],
+    bucket: "efficiency",
+    weight: 2,
+    normalize: "percent",
+    transform: "invert"
+  },
+  { keywords: ["yards per attempt"], bucket: "efficiency", weight: 1.8 },
+  { keywords: ["routes"], bucket: "opportunity", weight: 0.12, normalize: "routes" },
+  { keywords: ["snap share"], bucket: "opportunity", weight: 0.45, normalize: "percent" },
+  { keywords: ["targets (last"], bucket: "opportunity", weight: 0.35 },
+  { keywords: ["catchable targets"], bucket: "efficiency", weight: 0.25 },
+  { keywords: ["adot"], bucket: "efficiency", weight: 0.18 },
+  { keywords: ["air yards"], bucket: "efficiency", weight: 0.06, normalize: "yards" },
+  { keywords: ["unrealized air yards"], bucket: "opportunity", weight: 0.04, normalize: "yards" },
+  { keywords: ["ez targets"], bucket: "leverage", weight: 0.9 },
+  { keywords: ["red zone"], bucket: "leverage", weight: 0.7 },
+  { keywords: ["3rd/4th"], bucket: "leverage", weight: 0.6 },
+  { keywords: ["play-action"], bucket: "leverage", weight: 0.5 },
+  { keywords: ["fantasy ppg"], bucket: "production", weight: 2.5 },
+  { keywords: ["ppr (last"], bucket: "production", weight: 2.2 },
+  {
+    keywords: ["ppr rank"],
+    bucket: "production",
+    weight: 18,
+    transform: "rank"
+  }
+];
+
+export const POSITION_MULTIPLIERS = {
+  QB: 1.08,
+  RB: 1.04,
+  WR: 1,
+  TE: 0.92,
+  K: 0.85,
+  DST: 0.9
+};
+
+export const BUCKET_WEIGHTS = {
+  opportunity: 28,
+  efficiency: 30,
+  leverage: 20,
+  production: 26
+};
+
+export const BUCKET_NORMALIZERS = {
+  opportunity: 120,
+  efficiency: 140,
+  leverage: 80,
+  production: 110
+};
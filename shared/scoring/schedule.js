@@ -0,0 +1,45 @@
+import { DEFAULT_DEF_RANK, clamp } from "./context.js";
+
+export const FANTASY_PLAYOFF_WEEKS = [15, 16, 17];
+
+const PLAYOFF_LABEL = `weeks ${FANTASY_PLAYOFF_WEEKS[0]}-${FANTASY_PLAYOFF_WEEKS[FANTASY_PLAYOFF_WEEKS.length - 1]}`;
+
+const round = (value) => Number(value.toFixed(2));
+
+/**
+ * Averages the positional defense rank of every remaining opponent (1 = stingiest, 32 = softest).
+ * Byes are skipped; with `playoffWeight` above 1, fantasy playoff weeks count that many times.
+ */
+export function summarizeSchedule(games, { playoffWeight = 1 } = {}) {
+  const played = (games || []).filter((game) => game?.opponent && typeof game.defRank === "number");
+  if (!played.length) return null;
+  let weightedSum = 0;
+  let totalWeight = 0;
+  played.forEach((game) => {
+    const weight = FANTASY_PLAYOFF_WEEKS.includes(game.week) ? Math.max(playoffWeight, 0) : 1;
+    weightedSum += game.defRank * weight;
+    totalWeight += weight;
+  });
+  const playoffGames = played.filter((game) => FANTASY_PLAYOFF_WEEKS.includes(game.week));
+  return {
+    games: played.length,
+    averageDefRank: round(totalWeight ? weightedSum / totalWeight : DEFAULT_DEF_RANK),
+    playoffDefRank: playoffGames.length
+      ? round(playoffGames.reduce((sum, game) => sum + game.defRank, 0) / playoffGames.length)
+      : null
+  };
+}
+
+/** ROS nudge for schedule strength: softer remaining defenses add points, tougher ones subtract. */
+export function getScheduleAdjustment(games, options = {}) {
+  const summary = summarizeSchedule(games, options);
+  if (!summary) return null;
+  const delta = clamp((summary.averageDefRank - DEFAULT_DEF_RANK) / 8, -1, 1) * 8;
+  if (!round(delta)) return null;
+  const weighting = options.playoffWeight > 1 ? `, ${PLAYOFF_LABEL} x${options.playoffWeight}` : "";
+  return {
+    key: "schedule",
+    label: `Remaining schedule: avg opponent DEF rank ${summary.averageDefRank} over ${summary.games} games${weighting}`,
+    delta: round(delta)
+  };
+}
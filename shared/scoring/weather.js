@@ -0,0 +1,62 @@
+export const ROOF_TYPES = ["dome", "retractable", "open"];
+
+// Rain chance above which a retractable roof is assumed closed; it matches the first rain-penalty step.
+export const RETRACTABLE_CLOSE_RAIN = 40;
+
+/**
+ * Domes are always covered. Retractable roofs are only assumed shut when rain is likely; otherwise
+ * (or with no rain forecast) the roof may be open, so the game takes the open-air weather penalties.
+ */
+export const isCoveredRoof = (roof, rainChance = null) =>
+  roof === "dome" || (roof === "retractable" && typeof rainChance === "number" && rainChance > RETRACTABLE_CLOSE_RAIN);
+
+const numberOrNull = (value) => {
+  if (value === null || value === undefined || value === "") return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+// Boards saved before weather was structured carry strings like "72F / 10% rain".
+function parseLegacyWeather(text) {
+  const temp = text.match(/(-?\d+)\s*F/i);
+  const rain = text.match(/(\d+)\s*%/);
+  if (!temp && !rain) return null;
+  return {
+    roof: null,
+    kickoff: null,
+    tempF: temp ? Number(temp[1]) : null,
+    rainChance: rain ? Number(rain[1]) : null,
+    windMph: null,
+    gustMph: null
+  };
+}
+
+/** Coerces stored or imported weather (structured object or legacy summary string) into a GameWeather. */
+export function normalizeWeather(value) {
+  if (!value) return null;
+  if (typeof value === "string") return parseLegacyWeather(value);
+  if (typeof value !== "object") return null;
+  return {
+    roof: ROOF_TYPES.includes(value.roof) ? value.roof : null,
+    kickoff: typeof value.kickoff === "string" ? value.kickoff : null,
+    tempF: numberOrNull(value.tempF),
+    rainChance: numberOrNull(value.rainChance),
+    windMph: numberOrNull(value.windMph),
+    gustMph: numberOrNull(value.gustMph)
+  };
+}
+
+export function formatWeather(value) {
+  const weather = normalizeWeather(value);
+  if (!weather) return "N/A";
+  if (weather.roof === "dome") return "Dome";
+  const parts = [];
+  if (weather.tempF !== null) parts.push(`${Math.round(weather.tempF)}F`);
+  if (weather.rainChance !== null) parts.push(`${Math.round(weather.rainChance)}% rain`);
+  if (weather.windMph !== null) {
+    const gusts = weather.gustMph !== null ? ` (gusts ${Math.round(weather.gustMph)})` : "";
+    parts.push(`wind ${Math.round(weather.windMph)} mph${gusts}`);
+  }
+  if (weather.roof === "retractable") parts.push("retractable roof");
+  return parts.length ? parts.join(", ") : "N/A";
+}